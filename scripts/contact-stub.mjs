@@ -0,0 +1,45 @@
+// Local stand-in for the contact endpoint.
+//   npm run contact-stub
+//   VITE_CONTACT_ENDPOINT=http://localhost:8787/contact npm run dev
+// STUB_STATUS=500 makes every request fail, STUB_DELAY=2000 slows responses.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.STUB_PORT || 8787);
+const status = Number(process.env.STUB_STATUS || 200);
+const delay = Number(process.env.STUB_DELAY || 400);
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept',
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors).end();
+    return;
+  }
+  if (req.method !== 'POST' || req.url !== '/contact') {
+    res.writeHead(404, cors).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    setTimeout(() => {
+      let payload;
+      try {
+        payload = JSON.parse(body);
+      } catch (e) {
+        res.writeHead(400, { ...cors, 'Content-Type': 'application/json' }).end('{"error":"invalid json"}');
+        return;
+      }
+      console.log(`[contact-stub] ${new Date().toISOString()} → ${status}`, payload);
+      res.writeHead(status, { ...cors, 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ ok: status < 400 }));
+    }, delay);
+  });
+}).listen(port, () => {
+  console.log(`[contact-stub] listening on http://localhost:${port}/contact`);
+});
@@ -0,0 +1,253 @@
+// Builds the Skyline Residences sample model and its poster.
+//   npm run sample-model
+// Writes public/models/skyline.glb (towers on a plinth, one mesh per material)
+// and public/models/skyline.png, a flat-shaded render of the same triangles
+// used when the viewer can't show the model.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { deflateSync } from 'node:zlib';
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/addons/utils/BufferGeometryUtils.js';
+
+const OUT_DIR = new URL('../public/models/', import.meta.url);
+
+// ─── MODEL ───
+
+// [x, z, width, depth, height]
+const TOWERS = [
+  [-1.6, -1.4, 0.9, 0.9, 3.6],
+  [-0.3, -1.6, 0.8, 0.7, 2.4],
+  [1.1, -1.2, 1.0, 1.0, 4.4],
+  [-1.5, 0.1, 0.8, 1.0, 1.8],
+  [0, 0, 1.1, 1.1, 5.2],
+  [1.4, 0.3, 0.7, 0.9, 2.9],
+  [-1.2, 1.5, 1.0, 0.7, 1.2],
+  [0.2, 1.5, 0.8, 0.8, 2.1],
+  [1.5, 1.6, 0.8, 0.7, 1.5],
+];
+
+function box(x, y, z, width, height, depth) {
+  const geometry = new THREE.BoxGeometry(width, height, depth);
+  geometry.translate(x, y + height / 2, z);
+  // BoxGeometry's uvs aren't needed; the model is untextured
+  geometry.deleteAttribute('uv');
+  return geometry;
+}
+
+const parts = [
+  {
+    name: 'Towers',
+    material: { name: 'Glass', pbrMetallicRoughness: { baseColorFactor: [0.09, 0.16, 0.3, 1], metallicFactor: 0.7, roughnessFactor: 0.25 }, emissiveFactor: [0, 0.05, 0.08] },
+    geometry: mergeGeometries(TOWERS.map(([x, z, w, d, h]) => box(x, 0.3, z, w, h, d))),
+    shade: [0.09, 0.16, 0.3],
+  },
+  {
+    name: 'Roof lights',
+    material: { name: 'Beacon', pbrMetallicRoughness: { baseColorFactor: [1, 0.18, 0.47, 1], metallicFactor: 0, roughnessFactor: 0.5 }, emissiveFactor: [1, 0.18, 0.47] },
+    geometry: mergeGeometries(TOWERS.filter(t => t[4] > 2.5).map(([x, z, , , h]) => box(x, 0.3 + h, z, 0.12, 0.25, 0.12))),
+    shade: [1, 0.18, 0.47],
+    glow: true,
+  },
+  {
+    name: 'Plinth',
+    material: { name: 'Concrete', pbrMetallicRoughness: { baseColorFactor: [0.55, 0.57, 0.62, 1], metallicFactor: 0, roughnessFactor: 0.85 } },
+    geometry: box(0, 0, 0, 5, 0.3, 5),
+    shade: [0.55, 0.57, 0.62],
+  },
+];
+
+// ─── GLB ───
+
+function buildGlb() {
+  const chunks = [];
+  let byteLength = 0;
+  const gltf = {
+    asset: { version: '2.0', generator: 'gallant scripts/sample-model.mjs' },
+    scene: 0,
+    scenes: [{ name: 'Skyline Residences', nodes: [0] }],
+    nodes: [{ name: 'Skyline Residences', children: parts.map((_, i) => i + 1) }],
+    meshes: [],
+    materials: [],
+    accessors: [],
+    bufferViews: [],
+    buffers: [],
+  };
+
+  const addView = (array, target) => {
+    const bytes = Buffer.from(array.buffer, array.byteOffset, array.byteLength);
+    const padding = (4 - (bytes.length % 4)) % 4;
+    gltf.bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, target });
+    chunks.push(bytes, Buffer.alloc(padding));
+    byteLength += bytes.length + padding;
+    return gltf.bufferViews.length - 1;
+  };
+
+  const addAccessor = (accessor) => {
+    gltf.accessors.push(accessor);
+    return gltf.accessors.length - 1;
+  };
+
+  parts.forEach(({ name, material, geometry }, i) => {
+    geometry.computeBoundingBox();
+    const position = geometry.getAttribute('position');
+    const normal = geometry.getAttribute('normal');
+    const index = new Uint16Array(geometry.getIndex().array);
+    const { min, max } = geometry.boundingBox;
+
+    gltf.materials.push(material);
+    gltf.nodes.push({ name, mesh: i });
+    gltf.meshes.push({
+      name,
+      primitives: [{
+        attributes: {
+          POSITION: addAccessor({ bufferView: addView(new Float32Array(position.array), 34962), componentType: 5126, count: position.count, type: 'VEC3', min: min.toArray(), max: max.toArray() }),
+          NORMAL: addAccessor({ bufferView: addView(new Float32Array(normal.array), 34962), componentType: 5126, count: normal.count, type: 'VEC3' }),
+        },
+        indices: addAccessor({ bufferView: addView(index, 34963), componentType: 5123, count: index.length, type: 'SCALAR' }),
+        material: i,
+      }],
+    });
+  });
+  gltf.buffers.push({ byteLength });
+
+  const json = Buffer.from(JSON.stringify(gltf));
+  const jsonChunk = Buffer.concat([json, Buffer.alloc((4 - (json.length % 4)) % 4, 0x20)]);
+  const binChunk = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.writeUInt32LE(0x46546c67, 0); // 'glTF'
+  header.writeUInt32LE(2, 4);
+  header.writeUInt32LE(12 + 8 + jsonChunk.length + 8 + binChunk.length, 8);
+  const chunkHeader = (length, type) => {
+    const buffer = Buffer.alloc(8);
+    buffer.writeUInt32LE(length, 0);
+    buffer.writeUInt32LE(type, 4);
+    return buffer;
+  };
+  return Buffer.concat([header, chunkHeader(jsonChunk.length, 0x4e4f534a), jsonChunk, chunkHeader(binChunk.length, 0x004e4942), binChunk]);
+}
+
+// ─── POSTER ───
+
+const WIDTH = 960;
+const HEIGHT = 600;
+// Rendered at twice the size and averaged down, for smooth edges
+const SUPERSAMPLE = 2;
+
+function renderPoster() {
+  const w = WIDTH * SUPERSAMPLE, h = HEIGHT * SUPERSAMPLE;
+  const color = new Float32Array(w * h * 3);
+  const depth = new Float32Array(w * h).fill(Infinity);
+
+  // Studio-lighting backdrop: dark blue, lifting towards the horizon
+  for (let y = 0; y < h; y++) {
+    const t = y / h;
+    for (let x = 0; x < w; x++) {
+      const i = (y * w + x) * 3;
+      color[i] = 0.004 + t * 0.008;
+      color[i + 1] = 0.004 + t * 0.012;
+      color[i + 2] = 0.01 + t * 0.03;
+    }
+  }
+
+  const camera = new THREE.PerspectiveCamera(35, WIDTH / HEIGHT, 0.1, 100);
+  camera.position.set(8.5, 6.5, 10);
+  camera.lookAt(0, 1.9, 0);
+  camera.updateMatrixWorld();
+  const light = new THREE.Vector3(0.5, 0.8, 0.35).normalize();
+  const rim = new THREE.Vector3(-0.6, 0.2, -0.8).normalize();
+
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3(), n = new THREE.Vector3();
+  const toScreen = v => [(v.x * 0.5 + 0.5) * w, (1 - (v.y * 0.5 + 0.5)) * h, v.z];
+
+  parts.forEach(({ geometry, shade, glow }) => {
+    const position = geometry.getAttribute('position');
+    const normal = geometry.getAttribute('normal');
+    const index = geometry.getIndex().array;
+    for (let t = 0; t < index.length; t += 3) {
+      n.fromBufferAttribute(normal, index[t]);
+      const lit = glow ? 1.4 : 0.22 + Math.max(n.dot(light), 0) * 0.85 + Math.max(n.dot(rim), 0) * 0.25;
+      const rgb = shade.map(s => Math.min(s * lit + (glow ? 0 : 0.03), 1));
+
+      const [p0, p1, p2] = [a, b, c].map((v, k) => toScreen(v.fromBufferAttribute(position, index[t + k]).project(camera)));
+      const area = (p1[0] - p0[0]) * (p2[1] - p0[1]) - (p2[0] - p0[0]) * (p1[1] - p0[1]);
+      if (area >= 0) continue; // back face
+      const minX = Math.max(Math.floor(Math.min(p0[0], p1[0], p2[0])), 0);
+      const maxX = Math.min(Math.ceil(Math.max(p0[0], p1[0], p2[0])), w - 1);
+      const minY = Math.max(Math.floor(Math.min(p0[1], p1[1], p2[1])), 0);
+      const maxY = Math.min(Math.ceil(Math.max(p0[1], p1[1], p2[1])), h - 1);
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+          const px = x + 0.5, py = y + 0.5;
+          const w0 = ((p1[0] - px) * (p2[1] - py) - (p2[0] - px) * (p1[1] - py)) / area;
+          const w1 = ((p2[0] - px) * (p0[1] - py) - (p0[0] - px) * (p2[1] - py)) / area;
+          const w2 = 1 - w0 - w1;
+          if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+          const z = w0 * p0[2] + w1 * p1[2] + w2 * p2[2];
+          const i = y * w + x;
+          if (z >= depth[i]) continue;
+          depth[i] = z;
+          color.set(rgb, i * 3);
+        }
+      }
+    }
+  });
+
+  // Average each block down to one pixel; one filter byte leads every PNG row
+  const rows = Buffer.alloc((WIDTH * 3 + 1) * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      for (let k = 0; k < 3; k++) {
+        let sum = 0;
+        for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+          for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+            sum += color[((y * SUPERSAMPLE + sy) * w + x * SUPERSAMPLE + sx) * 3 + k];
+          }
+        }
+        const linear = sum / (SUPERSAMPLE * SUPERSAMPLE);
+        rows[y * (WIDTH * 3 + 1) + 1 + x * 3 + k] = Math.round(Math.pow(linear, 1 / 2.2) * 255);
+      }
+    }
+  }
+  return encodePng(rows);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, data) {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function encodePng(rows) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(WIDTH, 0);
+  header.writeUInt32BE(HEIGHT, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(rows, { level: 9 })),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+mkdirSync(OUT_DIR, { recursive: true });
+const glb = buildGlb();
+writeFileSync(new URL('skyline.glb', OUT_DIR), glb);
+const png = renderPoster();
+writeFileSync(new URL('skyline.png', OUT_DIR), png);
+console.log(`Wrote public/models/skyline.glb (${glb.length} bytes) and skyline.png (${png.length} bytes)`);
@@ -0,0 +1,93 @@
+/**
+ * Audio preferences: master, music and SFX volume plus the mute switch.
+ * Remembered across visits. Sound starts muted until the user turns it on;
+ * after that their choice sticks, and AudioSystem resumes on the first
+ * gesture the browser allows.
+ */
+
+const STORAGE_KEY = 'gallant:audio';
+
+export type VolumeChannel = 'master' | 'music' | 'sfx';
+
+export interface AudioSettingsState {
+    /** 0–1 levels */
+    master: number;
+    music: number;
+    sfx: number;
+    muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettingsState = {
+    master: 0.8,
+    music: 0.75,
+    sfx: 0.8,
+    muted: true,
+};
+
+type SettingsListener = (settings: AudioSettingsState, previous: AudioSettingsState) => void;
+
+function clampLevel(value: unknown, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : fallback;
+}
+
+export class AudioSettings {
+    private state: AudioSettingsState = { ...DEFAULT_AUDIO_SETTINGS };
+    private listeners: Set<SettingsListener> = new Set();
+
+    constructor() {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored !== null) this.state = this.sanitize(JSON.parse(stored));
+        } catch (e) { }
+    }
+
+    get current(): AudioSettingsState {
+        return { ...this.state };
+    }
+
+    get muted(): boolean {
+        return this.state.muted;
+    }
+
+    public volume(channel: VolumeChannel): number {
+        return this.state[channel];
+    }
+
+    /** Update some settings; listeners only hear about real changes */
+    public set(changes: Partial<AudioSettingsState>) {
+        const previous = this.state;
+        const next = this.sanitize({ ...previous, ...changes });
+        if (next.master === previous.master && next.music === previous.music
+            && next.sfx === previous.sfx && next.muted === previous.muted) return;
+
+        this.state = next;
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        } catch (e) { }
+        this.listeners.forEach(l => l(this.current, previous));
+    }
+
+    public setVolume(channel: VolumeChannel, level: number) {
+        this.set({ [channel]: level });
+    }
+
+    public toggleMute() {
+        this.set({ muted: !this.state.muted });
+    }
+
+    public onChange(listener: SettingsListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Stored data may be stale or hand-edited; keep what's valid */
+    private sanitize(raw: Partial<AudioSettingsState> | null): AudioSettingsState {
+        const d = DEFAULT_AUDIO_SETTINGS;
+        return {
+            master: clampLevel(raw?.master, d.master),
+            music: clampLevel(raw?.music, d.music),
+            sfx: clampLevel(raw?.sfx, d.sfx),
+            muted: typeof raw?.muted === 'boolean' ? raw.muted : d.muted,
+        };
+    }
+}
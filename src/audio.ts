@@ -1,60 +1,274 @@
+import type { SectionId, SectionScroll } from './router';
+import type { AudioSettings, AudioSettingsState } from './audio-settings';
+import type { SpatialBus, SpatialHost } from './spatial-audio';
+import { SfxPlayer, type PlayOptions, type SoundName } from './sfx';
+import { ticker, TickPriority, type FrameInfo } from './ticker';
+import { Lifetime, type Disposable } from './lifecycle';
+
 /**
  * Audio system using Web Audio API for ambient/cinematic sounds.
  * Generates procedural ambient tones — no external audio files needed.
+ * The drone follows the page: each section has its own chord, crossfaded in
+ * when the section changes, and scroll position and speed open up the drone
+ * filter and the noise band.
+ * Levels and mute come from AudioSettings; UI follows `onChange` rather than
+ * this class touching the DOM.
+ * An analyser on the master bus turns whatever is playing into smoothed
+ * low/mid/high bands and an onset pulse that scenes can map onto uniforms.
  */
-export class AudioSystem {
+
+export type MusicSection = SectionId | 'portal';
+
+/** `blocked`: sound is on, but the browser hasn't allowed playback yet */
+export type AudioState = 'muted' | 'playing' | 'blocked';
+
+type AudioStateListener = (state: AudioState) => void;
+
+/** Smoothed 0–1 levels of the master bus, plus a 0–1 pulse that spikes on onsets */
+export interface AudioBands {
+    low: number;
+    mid: number;
+    high: number;
+    onset: number;
+}
+
+export const SILENT_BANDS: Readonly<AudioBands> = { low: 0, mid: 0, high: 0, onset: 0 };
+
+/** What scenes read their audio reaction from */
+export interface AudioBandSource {
+    readonly bands: AudioBands;
+}
+
+/** Drone voicings as MIDI notes, lowest first */
+const SECTION_CHORDS: Record<MusicSection, number[]> = {
+    portal: [33, 40, 45, 52],        // A1 E2 A2 E3 — open fifths
+    home: [33, 40, 48, 52],          // Am
+    services: [29, 36, 45, 52],      // Fmaj7
+    portfolio: [36, 43, 50, 52],     // Cadd9
+    about: [38, 45, 52, 53],         // Dm(add9)
+    testimonials: [31, 38, 47, 52],  // G6
+    cta: [28, 35, 45, 47],           // Esus4
+    contact: [33, 40, 47, 52],       // Asus2
+};
+
+// Per-voice waveform and level, lowest voice first
+const VOICE_TYPES: OscillatorType[] = ['sine', 'sine', 'triangle', 'sine'];
+const VOICE_GAINS = [0.12, 0.08, 0.04, 0.02];
+
+const CROSSFADE = 2.5;
+// Overall scroll progress per second that counts as a fast scroll
+const FAST_SCROLL = 0.5;
+
+// Gestures that count as user activation for autoplay. Listened to in the
+// bubble phase, so a click on the sound switch reaches `toggle` first.
+const UNLOCK_EVENTS = ['click', 'keydown'];
+
+// Band edges in Hz: low < 250 ≤ mid < 2000 ≤ high < 8000
+const BAND_EDGES = [20, 250, 2000, 8000];
+// Per-second smoothing rates for rising and falling band levels
+const BAND_ATTACK = 20;
+const BAND_RELEASE = 5;
+// Spectral flux this many times above its running mean counts as an onset
+const ONSET_THRESHOLD = 1.8;
+const ONSET_MIN_GAP = 0.12;
+const ONSET_DECAY = 8;
+
+function midiToFrequency(note: number): number {
+    return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+interface Voicing {
+    gain: GainNode;
+    nodes: OscillatorNode[];
+}
+
+export class AudioSystem implements Disposable, SpatialHost {
     private ctx: AudioContext | null = null;
+    // music + sfx → master → destination
     private masterGain: GainNode | null = null;
+    private musicGain: GainNode | null = null;
+    private sfxGain: GainNode | null = null;
+    private sfx: SfxPlayer = new SfxPlayer();
+    // Handed to positional emitters; kept stable so they can tell when it changes
+    private spatial: SpatialBus | null = null;
     private isPlaying: boolean = false;
-    private oscillators: OscillatorNode[] = [];
     private noiseNode: AudioBufferSourceNode | null = null;
+    // Drone voices → brightness lowpass → music; noise → bandpass → music
+    private droneFilter: BiquadFilterNode | null = null;
+    private noiseFilter: BiquadFilterNode | null = null;
+    private noiseGain: GainNode | null = null;
+    private voicing: Voicing | null = null;
+    private section: MusicSection = 'portal';
+
+    // Scroll state, eased every frame while playing
+    private scrollProgress: number = 0;
+    private scrollVelocity: number = 0;
+    private lastScroll: { progress: number; time: number } | null = null;
+    private removeTick: (() => void) | null = null;
+
+    private lifetime: Lifetime = new Lifetime();
+    // Listening for the first gesture that lets the context run
+    private gestures: Lifetime | null = null;
+    private listeners: Set<AudioStateListener> = new Set();
+    private lastState: AudioState;
+
+    // Analysis of the master bus
+    private analyser: AnalyserNode | null = null;
+    private spectrum: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+    private previousSpectrum: Float32Array = new Float32Array(0);
+    private fluxAverage: number = 0;
+    private sinceOnset: number = Infinity;
+    private readonly levels: AudioBands = { low: 0, mid: 0, high: 0, onset: 0 };
+
+    constructor(private settings: AudioSettings) {
+        this.lastState = this.state;
+        this.lifetime.add(settings.onChange((next, previous) => this.applySettings(next, previous)));
+        // Input priority, so scenes read this frame's bands
+        this.lifetime.add(ticker.add(this.analyse, { priority: TickPriority.INPUT }));
+
+        // Sound left on last visit: the context is created on the first gesture
+        if (!settings.muted) this.armUnlock();
+    }
+
+    get state(): AudioState {
+        if (this.settings.muted) return 'muted';
+        return this.isPlaying && this.ctx?.state === 'running' ? 'playing' : 'blocked';
+    }
+
+    get playing() { return this.isPlaying; }
+
+    /** Positional sources play into the music bus, and only while the music runs */
+    public spatialBus(): SpatialBus | null {
+        if (!this.ctx || !this.musicGain || !this.isPlaying || this.ctx.state !== 'running') return null;
+        this.spatial ??= { ctx: this.ctx, output: this.musicGain };
+        return this.spatial;
+    }
 
-    constructor() {
-        // Audio context created on user interaction
+    /** Live band levels; the same object every frame, so read it rather than keep it */
+    get bands(): AudioBands {
+        return this.levels;
+    }
+
+    public onChange(listener: AudioStateListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** The sound switch: mute or unmute, or just unlock if sound is on but blocked */
+    public toggle() {
+        if (this.state === 'blocked') {
+            this.unlock();
+        } else {
+            this.settings.toggleMute();
+        }
+    }
+
+    public destroy() {
+        this.lifetime.destroy();
+        this.removeTick?.();
+        this.removeTick = null;
+        this.listeners.clear();
+        this.ctx?.close().catch(() => { });
+        this.ctx = null;
+        this.analyser = null;
+        this.spatial = null;
+        this.isPlaying = false;
     }
 
     private initContext() {
         if (this.ctx) return;
+        const { master, sfx, muted } = this.settings.current;
         this.ctx = new AudioContext();
         this.masterGain = this.ctx.createGain();
-        this.masterGain.gain.value = 0;
+        this.masterGain.gain.value = muted ? 0 : master;
         this.masterGain.connect(this.ctx.destination);
+        this.musicGain = this.ctx.createGain();
+        this.musicGain.gain.value = 0;
+        this.musicGain.connect(this.masterGain);
+        this.sfxGain = this.ctx.createGain();
+        this.sfxGain.gain.value = sfx;
+        this.sfxGain.connect(this.masterGain);
+
+        // Tap after the master gain, so muting settles the visuals too
+        this.analyser = this.ctx.createAnalyser();
+        this.analyser.fftSize = 1024;
+        this.analyser.smoothingTimeConstant = 0.6;
+        this.analyser.minDecibels = -90;
+        this.analyser.maxDecibels = -20;
+        this.masterGain.connect(this.analyser);
+        this.spectrum = new Uint8Array(this.analyser.frequencyBinCount);
+        this.previousSpectrum = new Float32Array(this.analyser.frequencyBinCount);
+
+        this.ctx.onstatechange = () => this.emit();
+        // Created outside a gesture: the context stays suspended until one arrives
+        if (this.ctx.state !== 'running') this.armUnlock();
     }
 
-    public start() {
+    private armUnlock() {
+        if (this.gestures || this.lifetime.destroyed) return;
+        const gestures = this.lifetime.child();
+        this.gestures = gestures;
+        UNLOCK_EVENTS.forEach(type => gestures.listen(window, type, () => this.unlock()));
+    }
+
+    /** Resume the context (needs a user gesture) and start the music if sound is on */
+    private unlock() {
         this.initContext();
-        if (!this.ctx || !this.masterGain || this.isPlaying) return;
+        const ctx = this.ctx;
+        if (!ctx) return;
+        const resumed = ctx.state === 'running' ? Promise.resolve() : ctx.resume();
+        resumed.then(() => {
+            if (ctx !== this.ctx || ctx.state !== 'running') return;
+            this.gestures?.destroy();
+            this.gestures = null;
+            if (!this.settings.muted) this.startMusic();
+            this.emit();
+        }).catch(() => { });
+    }
 
-        this.isPlaying = true;
+    private applySettings(next: AudioSettingsState, previous: AudioSettingsState) {
+        if (this.ctx && this.masterGain && this.sfxGain && this.musicGain) {
+            const now = this.ctx.currentTime;
+            this.masterGain.gain.setTargetAtTime(next.muted ? 0 : next.master, now, next.muted !== previous.muted ? 0.25 : 0.05);
+            this.sfxGain.gain.setTargetAtTime(next.sfx, now, 0.05);
+            if (this.isPlaying && next.music !== previous.music) {
+                this.musicGain.gain.cancelScheduledValues(now);
+                this.musicGain.gain.setTargetAtTime(next.music, now, 0.05);
+            }
+        }
+
+        if (next.muted !== previous.muted) {
+            if (next.muted) {
+                this.stopMusic();
+            } else {
+                this.unlock();
+            }
+        }
+        this.emit();
+    }
 
-        // Deep ambient drone - layered oscillators
-        const freqs = [55, 82.5, 110, 165]; // A1, E2, A2, E3
-        const types: OscillatorType[] = ['sine', 'sine', 'triangle', 'sine'];
-        const gains = [0.12, 0.08, 0.04, 0.02];
+    private emit() {
+        const state = this.state;
+        if (state === this.lastState) return;
+        this.lastState = state;
+        this.listeners.forEach(l => l(state));
+    }
 
-        freqs.forEach((freq, i) => {
-            const osc = this.ctx!.createOscillator();
-            const gain = this.ctx!.createGain();
+    // ─── MUSIC ───
 
-            osc.type = types[i];
-            osc.frequency.value = freq;
-            gain.gain.value = gains[i];
+    private startMusic() {
+        this.initContext();
+        if (!this.ctx || !this.musicGain || this.isPlaying) return;
 
-            // Subtle LFO for movement
-            const lfo = this.ctx!.createOscillator();
-            const lfoGain = this.ctx!.createGain();
-            lfo.type = 'sine';
-            lfo.frequency.value = 0.1 + i * 0.05;
-            lfoGain.gain.value = freq * 0.01; // Very subtle pitch wobble
-            lfo.connect(lfoGain);
-            lfoGain.connect(osc.frequency);
-            lfo.start();
+        this.isPlaying = true;
 
-            osc.connect(gain);
-            gain.connect(this.masterGain!);
-            osc.start();
-            this.oscillators.push(osc, lfo);
-        });
+        // Deep ambient drone — the current section's chord through a brightness filter
+        this.droneFilter = this.ctx.createBiquadFilter();
+        this.droneFilter.type = 'lowpass';
+        this.droneFilter.Q.value = 1;
+        this.droneFilter.frequency.value = this.droneCutoff(0);
+        this.droneFilter.connect(this.musicGain);
+        this.voicing = this.createVoicing(this.section, 1);
 
         // Filtered noise for "digital wind" texture
         const bufferSize = this.ctx.sampleRate * 4;
@@ -68,118 +282,208 @@ export class AudioSystem {
         this.noiseNode.buffer = noiseBuffer;
         this.noiseNode.loop = true;
 
-        const noiseFilter = this.ctx.createBiquadFilter();
-        noiseFilter.type = 'bandpass';
-        noiseFilter.frequency.value = 800;
-        noiseFilter.Q.value = 2;
+        this.noiseFilter = this.ctx.createBiquadFilter();
+        this.noiseFilter.type = 'bandpass';
+        this.noiseFilter.frequency.value = 800;
+        this.noiseFilter.Q.value = 2;
 
-        const noiseGain = this.ctx.createGain();
-        noiseGain.gain.value = 0.015;
+        this.noiseGain = this.ctx.createGain();
+        this.noiseGain.gain.value = 0.015;
 
-        this.noiseNode.connect(noiseFilter);
-        noiseFilter.connect(noiseGain);
-        noiseGain.connect(this.masterGain);
+        this.noiseNode.connect(this.noiseFilter);
+        this.noiseFilter.connect(this.noiseGain);
+        this.noiseGain.connect(this.musicGain);
         this.noiseNode.start();
 
+        this.removeTick = ticker.add(this.followScroll, { priority: TickPriority.SIMULATION });
+
         // Fade in
-        this.masterGain.gain.linearRampToValueAtTime(0.6, this.ctx.currentTime + 2);
-
-        // Update button state
-        const btn = document.getElementById('audio-toggle');
-        if (btn) {
-            btn.classList.add('playing');
-            const icon = btn.querySelector('.audio-icon');
-            if (icon) icon.textContent = '🔊';
-        }
+        this.musicGain.gain.cancelScheduledValues(this.ctx.currentTime);
+        this.musicGain.gain.setValueAtTime(this.musicGain.gain.value, this.ctx.currentTime);
+        this.musicGain.gain.linearRampToValueAtTime(this.settings.volume('music'), this.ctx.currentTime + 2);
     }
 
-    public stop() {
-        if (!this.ctx || !this.masterGain) return;
+    private stopMusic() {
+        if (!this.ctx || !this.musicGain || !this.isPlaying) return;
         this.isPlaying = false;
 
         // Fade out
-        this.masterGain.gain.linearRampToValueAtTime(0, this.ctx.currentTime + 1);
-
-        setTimeout(() => {
-            this.oscillators.forEach(osc => {
-                try { osc.stop(); } catch (e) { }
-            });
-            this.oscillators = [];
-            if (this.noiseNode) {
-                try { this.noiseNode.stop(); } catch (e) { }
-                this.noiseNode = null;
+        this.musicGain.gain.cancelScheduledValues(this.ctx.currentTime);
+        this.musicGain.gain.setValueAtTime(this.musicGain.gain.value, this.ctx.currentTime);
+        this.musicGain.gain.linearRampToValueAtTime(0, this.ctx.currentTime + 1);
+
+        this.removeTick?.();
+        this.removeTick = null;
+
+        // Stop this run's nodes after the fade; a restart in the meantime builds new ones
+        const voicing = this.voicing;
+        const noise = this.noiseNode;
+        const filters = [this.droneFilter, this.noiseFilter, this.noiseGain];
+        this.voicing = null;
+        this.noiseNode = null;
+        this.droneFilter = null;
+        this.noiseFilter = null;
+        this.noiseGain = null;
+        // Owned by the lifetime: destroy() closes the context, which silences these anyway
+        this.lifetime.timeout(() => {
+            if (voicing) this.releaseVoicing(voicing, 0);
+            if (noise) {
+                try { noise.stop(); } catch (e) { }
             }
+            filters.forEach(node => node?.disconnect());
         }, 1200);
+    }
 
-        const btn = document.getElementById('audio-toggle');
-        if (btn) {
-            btn.classList.remove('playing');
-            const icon = btn.querySelector('.audio-icon');
-            if (icon) icon.textContent = '🔇';
-        }
+    /** Crossfade the drone to `section`'s chord; remembered while stopped */
+    public setSection(section: MusicSection) {
+        if (section === this.section) return;
+        this.section = section;
+        if (!this.isPlaying) return;
+
+        if (this.voicing) this.releaseVoicing(this.voicing, CROSSFADE);
+        this.voicing = this.createVoicing(section, CROSSFADE);
     }
 
-    public toggle() {
-        if (this.isPlaying) {
-            this.stop();
-        } else {
-            this.start();
+    /** Feed the world's scroll position; speed is derived from successive calls */
+    public updateScroll(scroll: SectionScroll) {
+        const time = performance.now();
+        if (this.lastScroll) {
+            const dt = (time - this.lastScroll.time) / 1000;
+            if (dt > 0) {
+                const speed = Math.abs(scroll.progress - this.lastScroll.progress) / dt;
+                this.scrollVelocity = Math.max(this.scrollVelocity, Math.min(speed / FAST_SCROLL, 1));
+            }
         }
+        this.lastScroll = { progress: scroll.progress, time };
+        this.scrollProgress = scroll.progress;
     }
 
-    /** Play a short transition whoosh sound */
-    public playTransitionWhoosh() {
+    // ─── SOUND EFFECTS ───
+
+    /** Play a catalogue sound on the SFX bus; its cooldown or polyphony limit may drop it */
+    public play(name: SoundName, options?: PlayOptions) {
+        if (this.settings.muted) return;
         this.initContext();
-        if (!this.ctx || !this.masterGain) return;
+        if (!this.ctx || !this.sfxGain) return;
+        this.sfx.play(name, this.ctx, this.sfxGain, options);
+    }
 
-        const osc = this.ctx.createOscillator();
-        const gain = this.ctx.createGain();
-        const filter = this.ctx.createBiquadFilter();
+    // ─── ANALYSIS ───
+
+    /** Per frame: fold the spectrum into bands and look for onsets */
+    private analyse = (frame: FrameInfo) => {
+        const levels = this.levels;
+        this.sinceOnset += frame.delta;
+        levels.onset *= Math.exp(-frame.delta * ONSET_DECAY);
+
+        const running = this.analyser && this.ctx?.state === 'running';
+        const targets = [0, 0, 0];
+        if (running) {
+            const analyser = this.analyser!;
+            analyser.getByteFrequencyData(this.spectrum);
+            const binWidth = this.ctx!.sampleRate / analyser.fftSize;
+            const sums = [0, 0, 0];
+            const counts = [0, 0, 0];
+            let flux = 0;
+
+            for (let i = 0; i < this.spectrum.length; i++) {
+                const value = this.spectrum[i] / 255;
+                flux += Math.max(value - this.previousSpectrum[i], 0);
+                this.previousSpectrum[i] = value;
+
+                const freq = i * binWidth;
+                for (let band = 0; band < 3; band++) {
+                    if (freq >= BAND_EDGES[band] && freq < BAND_EDGES[band + 1]) {
+                        sums[band] += value;
+                        counts[band]++;
+                    }
+                }
+            }
+            sums.forEach((sum, band) => { targets[band] = counts[band] ? sum / counts[band] : 0; });
 
-        osc.type = 'sawtooth';
-        osc.frequency.setValueAtTime(200, this.ctx.currentTime);
-        osc.frequency.exponentialRampToValueAtTime(2000, this.ctx.currentTime + 0.5);
-        osc.frequency.exponentialRampToValueAtTime(100, this.ctx.currentTime + 1.5);
+            flux /= this.spectrum.length;
+            if (flux > this.fluxAverage * ONSET_THRESHOLD + 0.002 && this.sinceOnset > ONSET_MIN_GAP) {
+                levels.onset = 1;
+                this.sinceOnset = 0;
+            }
+            this.fluxAverage += (flux - this.fluxAverage) * 0.05;
+        }
 
-        filter.type = 'lowpass';
-        filter.frequency.setValueAtTime(500, this.ctx.currentTime);
-        filter.frequency.exponentialRampToValueAtTime(5000, this.ctx.currentTime + 0.3);
-        filter.frequency.exponentialRampToValueAtTime(200, this.ctx.currentTime + 1.5);
-        filter.Q.value = 5;
+        (['low', 'mid', 'high'] as const).forEach((band, i) => {
+            const rate = targets[i] > levels[band] ? BAND_ATTACK : BAND_RELEASE;
+            levels[band] += (targets[i] - levels[band]) * (1 - Math.exp(-frame.delta * rate));
+        });
+    };
+
+    // ─── GENERATIVE DRONE ───
+
+    /** Build one chord's voices, fading in over `fade` seconds */
+    private createVoicing(section: MusicSection, fade: number): Voicing {
+        const ctx = this.ctx!;
+        const now = ctx.currentTime;
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0, now);
+        gain.gain.linearRampToValueAtTime(1, now + fade);
+        gain.connect(this.droneFilter!);
+
+        const nodes: OscillatorNode[] = [];
+        SECTION_CHORDS[section].forEach((note, i) => {
+            const freq = midiToFrequency(note);
+            const osc = ctx.createOscillator();
+            const voiceGain = ctx.createGain();
+
+            osc.type = VOICE_TYPES[i];
+            osc.frequency.value = freq;
+            voiceGain.gain.value = VOICE_GAINS[i];
 
-        gain.gain.setValueAtTime(0, this.ctx.currentTime);
-        gain.gain.linearRampToValueAtTime(0.15, this.ctx.currentTime + 0.1);
-        gain.gain.linearRampToValueAtTime(0, this.ctx.currentTime + 1.5);
+            // Subtle LFO for movement
+            const lfo = ctx.createOscillator();
+            const lfoGain = ctx.createGain();
+            lfo.type = 'sine';
+            lfo.frequency.value = 0.1 + i * 0.05;
+            lfoGain.gain.value = freq * 0.01; // Very subtle pitch wobble
+            lfo.connect(lfoGain);
+            lfoGain.connect(osc.frequency);
+            lfo.start(now);
 
-        osc.connect(filter);
-        filter.connect(gain);
-        gain.connect(this.masterGain);
+            osc.connect(voiceGain);
+            voiceGain.connect(gain);
+            osc.start(now);
+            nodes.push(osc, lfo);
+        });
 
-        osc.start();
-        osc.stop(this.ctx.currentTime + 2);
+        return { gain, nodes };
     }
 
-    /** Play a subtle UI hover blip */
-    public playHoverBlip() {
-        this.initContext();
-        if (!this.ctx || !this.masterGain) return;
-
-        const osc = this.ctx.createOscillator();
-        const gain = this.ctx.createGain();
-
-        osc.type = 'sine';
-        osc.frequency.setValueAtTime(800, this.ctx.currentTime);
-        osc.frequency.exponentialRampToValueAtTime(1200, this.ctx.currentTime + 0.05);
-
-        gain.gain.setValueAtTime(0.05, this.ctx.currentTime);
-        gain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + 0.15);
-
-        osc.connect(gain);
-        gain.connect(this.masterGain);
+    /** Fade a chord out over `fade` seconds, then stop and disconnect it */
+    private releaseVoicing(voicing: Voicing, fade: number) {
+        const ctx = this.ctx!;
+        const now = ctx.currentTime;
+        voicing.gain.gain.cancelScheduledValues(now);
+        voicing.gain.gain.setValueAtTime(voicing.gain.gain.value, now);
+        voicing.gain.gain.linearRampToValueAtTime(0, now + fade);
+        voicing.nodes.forEach(node => {
+            try { node.stop(now + fade + 0.05); } catch (e) { }
+        });
+        // All voices end together; the first one to finish takes the chord's gain node with it
+        voicing.nodes[0].onended = () => voicing.gain.disconnect();
+    }
 
-        osc.start();
-        osc.stop(this.ctx.currentTime + 0.2);
+    /** Lowpass cutoff for 0–1 brightness: ~400 Hz at rest, ~4.5 kHz fully open */
+    private droneCutoff(brightness: number): number {
+        return 400 * Math.pow(2, brightness * 3.5);
     }
 
-    get playing() { return this.isPlaying; }
+    /** Per frame: ease scroll speed back down and steer the filters */
+    private followScroll = (frame: FrameInfo) => {
+        if (!this.ctx || !this.droneFilter || !this.noiseFilter || !this.noiseGain) return;
+        this.scrollVelocity *= Math.exp(-frame.delta * 2.5);
+
+        const energy = this.scrollVelocity;
+        const brightness = Math.min(this.scrollProgress * 0.5 + energy * 0.5, 1);
+        const now = this.ctx.currentTime;
+        this.droneFilter.frequency.setTargetAtTime(this.droneCutoff(brightness), now, 0.15);
+        this.noiseFilter.frequency.setTargetAtTime(600 + this.scrollProgress * 900 + energy * 2500, now, 0.15);
+        this.noiseGain.gain.setTargetAtTime(0.015 + energy * 0.02, now, 0.15);
+    };
 }
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import type { SectionId, SectionScroll } from './router';
+
+/**
+ * Keyframed camera path for the world scene.
+ * Each section has a pose; position and look-at follow Catmull-Rom splines
+ * through the poses, and the blend between two poses is eased by how far the
+ * visitor has scrolled through the current section.
+ */
+
+export interface CameraKeyframe {
+    section: SectionId;
+    position: [number, number, number];
+    target: [number, number, number];
+    fov: number;
+    fogDensity: number;
+}
+
+export interface CameraPose {
+    position: THREE.Vector3;
+    target: THREE.Vector3;
+    fov: number;
+    fogDensity: number;
+}
+
+export const DEFAULT_CAMERA_PATH: CameraKeyframe[] = [
+    { section: 'home', position: [0, 2, 10], target: [0, 1.5, 0], fov: 50, fogDensity: 0.04 },
+    { section: 'services', position: [-3, 1.5, 7], target: [1, 1, -8], fov: 55, fogDensity: 0.035 },
+    { section: 'portfolio', position: [3, 0.5, 5], target: [-1, 1, -15], fov: 48, fogDensity: 0.03 },
+    { section: 'about', position: [0, 3, 4], target: [0, 0, -20], fov: 52, fogDensity: 0.04 },
+    { section: 'testimonials', position: [-2, 0, 3], target: [2, 2, -15], fov: 50, fogDensity: 0.045 },
+    { section: 'cta', position: [0, -0.5, 6], target: [0, 4, -20], fov: 60, fogDensity: 0.05 },
+    { section: 'contact', position: [0, -1, 5], target: [0, 0, -10], fov: 50, fogDensity: 0.05 },
+];
+
+/** Hold each pose for the first and last part of a section, move in between */
+const easeSection = (t: number) => THREE.MathUtils.smootherstep(t, 0.15, 0.85);
+
+export class CameraPath {
+    private positions: THREE.CatmullRomCurve3;
+    private targets: THREE.CatmullRomCurve3;
+
+    constructor(private keyframes: CameraKeyframe[] = DEFAULT_CAMERA_PATH) {
+        if (keyframes.length < 2) throw new Error('CameraPath needs at least two keyframes');
+        this.positions = new THREE.CatmullRomCurve3(keyframes.map(k => new THREE.Vector3(...k.position)), false, 'centripetal');
+        this.targets = new THREE.CatmullRomCurve3(keyframes.map(k => new THREE.Vector3(...k.target)), false, 'centripetal');
+    }
+
+    /** Pose for a scroll position; writes into `out` to avoid per-frame allocations */
+    public sample(scroll: SectionScroll, out: CameraPose): CameraPose {
+        // Sections without a keyframe hold the previous one
+        let index = 0;
+        for (let i = 0; i < this.keyframes.length; i++) {
+            if (this.keyframes[i].section === scroll.section) { index = i; break; }
+        }
+
+        const last = this.keyframes.length - 1;
+        const local = index < last ? easeSection(scroll.offset) : 0;
+        const u = (index + local) / last;
+
+        this.positions.getPoint(u, out.position);
+        this.targets.getPoint(u, out.target);
+
+        const from = this.keyframes[index];
+        const to = this.keyframes[Math.min(index + 1, last)];
+        out.fov = THREE.MathUtils.lerp(from.fov, to.fov, local);
+        out.fogDensity = THREE.MathUtils.lerp(from.fogDensity, to.fogDensity, local);
+        return out;
+    }
+}
@@ -0,0 +1,253 @@
+import type { Disposable } from './lifecycle';
+
+/**
+ * Contact form submission.
+ * Pluggable transports (HTTP endpoint, mailto), field validation, spam
+ * protection and an offline queue that is retried when the browser is back
+ * online. DOM wiring lives in main.ts; nothing here touches the form.
+ */
+
+export interface ContactSubmission {
+    name: string;
+    email: string;
+    subject: string;
+    message: string;
+}
+
+export type ContactField = keyof ContactSubmission;
+
+export type FieldErrors = Partial<Record<ContactField, string>>;
+
+export class ContactTransportError extends Error {
+    /** Retryable failures (network, 5xx) are queued; the rest are shown to the user */
+    constructor(message: string, public readonly retryable: boolean) {
+        super(message);
+        this.name = 'ContactTransportError';
+    }
+}
+
+export interface ContactTransport {
+    readonly name: string;
+    /** False when send() only hands the message to another app to finish */
+    readonly delivers: boolean;
+    send(submission: ContactSubmission): Promise<void>;
+}
+
+// ─── TRANSPORTS ───
+
+export class HttpTransport implements ContactTransport {
+    readonly name = 'http';
+    readonly delivers = true;
+
+    constructor(private endpoint: string, private timeoutMs: number = 10000) { }
+
+    public async send(submission: ContactSubmission): Promise<void> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+        let response: Response;
+        try {
+            response = await fetch(this.endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+                body: JSON.stringify(submission),
+                signal: controller.signal,
+            });
+        } catch (e) {
+            throw new ContactTransportError('Could not reach the server', true);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (!response.ok) {
+            const retryable = response.status >= 500 || response.status === 429;
+            throw new ContactTransportError(`Server responded with ${response.status}`, retryable);
+        }
+    }
+}
+
+/** Opens the visitor's mail client with the message pre-filled */
+export class MailtoTransport implements ContactTransport {
+    readonly name = 'mailto';
+    readonly delivers = false;
+
+    constructor(private address: string) { }
+
+    public buildHref(submission: ContactSubmission): string {
+        const subject = submission.subject || `Project inquiry from ${submission.name}`;
+        const body = `${submission.message}\n\n— ${submission.name} <${submission.email}>`;
+        return `mailto:${this.address}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+    }
+
+    public async send(submission: ContactSubmission): Promise<void> {
+        window.location.href = this.buildHref(submission);
+    }
+}
+
+// ─── VALIDATION ───
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export function validateSubmission(submission: ContactSubmission): FieldErrors {
+    const errors: FieldErrors = {};
+    if (submission.name.trim().length < 2) errors.name = 'Please enter your name.';
+    if (!EMAIL_PATTERN.test(submission.email.trim())) errors.email = 'Please enter a valid email address.';
+    if (submission.subject.length > 150) errors.subject = 'Keep the subject under 150 characters.';
+    if (submission.message.trim().length < 10) errors.message = 'Tell us a little more (at least 10 characters).';
+    else if (submission.message.length > 5000) errors.message = 'Messages are limited to 5000 characters.';
+    return errors;
+}
+
+// ─── SPAM PROTECTION ───
+
+const RATE_LIMIT_KEY = 'gallant:contact-sent';
+const RATE_LIMIT_MAX = 3;
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+/** Humans take longer than this to fill the form; bots usually don't */
+const MIN_FILL_TIME_MS = 3000;
+
+function readJSON<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch (e) {
+        return fallback;
+    }
+}
+
+function writeJSON(key: string, value: unknown) {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (e) { }
+}
+
+class RateLimiter {
+    private recent(): number[] {
+        const cutoff = Date.now() - RATE_LIMIT_WINDOW_MS;
+        return readJSON<number[]>(RATE_LIMIT_KEY, []).filter(t => t > cutoff);
+    }
+
+    get allowed(): boolean {
+        return this.recent().length < RATE_LIMIT_MAX;
+    }
+
+    public record() {
+        writeJSON(RATE_LIMIT_KEY, [...this.recent(), Date.now()]);
+    }
+}
+
+// ─── OFFLINE QUEUE ───
+
+const QUEUE_KEY = 'gallant:contact-queue';
+
+interface QueuedSubmission {
+    submission: ContactSubmission;
+    queuedAt: number;
+    attempts: number;
+}
+
+// ─── SERVICE ───
+
+export type SubmitResult =
+    | { status: 'sent'; transport: string }
+    | { status: 'handoff'; transport: string }
+    | { status: 'queued' }
+    | { status: 'invalid'; errors: FieldErrors }
+    | { status: 'rate-limited' }
+    | { status: 'spam' }
+    | { status: 'failed'; error: ContactTransportError };
+
+export class ContactService implements Disposable {
+    private limiter = new RateLimiter();
+    private flushing: boolean = false;
+
+    constructor(private transport: ContactTransport, public readonly fallback: MailtoTransport | null = null) {
+        // Only network transports can fail offline, so only they queue
+        if (transport instanceof HttpTransport) {
+            window.addEventListener('online', this.flushQueue);
+            if (navigator.onLine) this.flushQueue();
+        }
+    }
+
+    /** Pick the transport from Vite env: HTTP when an endpoint is set, else mailto */
+    public static fromEnv(): ContactService {
+        const endpoint = import.meta.env.VITE_CONTACT_ENDPOINT;
+        const mailto = new MailtoTransport(import.meta.env.VITE_CONTACT_EMAIL || 'hello@gallantsolutions.com');
+        return endpoint
+            ? new ContactService(new HttpTransport(endpoint), mailto)
+            : new ContactService(mailto);
+    }
+
+    get queued(): number {
+        return readJSON<QueuedSubmission[]>(QUEUE_KEY, []).length;
+    }
+
+    /**
+     * @param honeypot value of the hidden field — anything in it means a bot
+     * @param startedAt when the visitor first interacted with the form, or null if never timed
+     */
+    public async submit(submission: ContactSubmission, honeypot: string, startedAt: number | null): Promise<SubmitResult> {
+        // Validate first: empty or half-filled forms need field errors, not a silent drop
+        const errors = validateSubmission(submission);
+        if (Object.keys(errors).length > 0) return { status: 'invalid', errors };
+
+        const tooFast = startedAt !== null && Date.now() - startedAt < MIN_FILL_TIME_MS;
+        if (honeypot || tooFast) {
+            // Pretend it worked so bots don't learn anything
+            return { status: 'spam' };
+        }
+
+        if (!this.limiter.allowed) return { status: 'rate-limited' };
+
+        if (!navigator.onLine && this.transport.name === 'http') {
+            this.enqueue(submission);
+            return { status: 'queued' };
+        }
+
+        try {
+            await this.transport.send(submission);
+            this.limiter.record();
+            // A mail client opening is not a delivery; the visitor still has to press send
+            return { status: this.transport.delivers ? 'sent' : 'handoff', transport: this.transport.name };
+        } catch (e) {
+            const error = e instanceof ContactTransportError ? e : new ContactTransportError(String(e), false);
+            if (error.retryable && !navigator.onLine) {
+                this.enqueue(submission);
+                return { status: 'queued' };
+            }
+            return { status: 'failed', error };
+        }
+    }
+
+    private enqueue(submission: ContactSubmission) {
+        const queue = readJSON<QueuedSubmission[]>(QUEUE_KEY, []);
+        queue.push({ submission, queuedAt: Date.now(), attempts: 0 });
+        writeJSON(QUEUE_KEY, queue);
+        this.limiter.record();
+    }
+
+    /** Retry everything queued while offline; keeps what still fails */
+    public flushQueue = async () => {
+        if (this.flushing) return;
+        this.flushing = true;
+
+        const queue = readJSON<QueuedSubmission[]>(QUEUE_KEY, []);
+        const remaining: QueuedSubmission[] = [];
+        for (const entry of queue) {
+            try {
+                await this.transport.send(entry.submission);
+            } catch (e) {
+                const retryable = !(e instanceof ContactTransportError) || e.retryable;
+                if (retryable && entry.attempts < 5) remaining.push({ ...entry, attempts: entry.attempts + 1 });
+            }
+        }
+        // Keep anything that was queued while this flush was running
+        const added = readJSON<QueuedSubmission[]>(QUEUE_KEY, []).slice(queue.length);
+        writeJSON(QUEUE_KEY, [...remaining, ...added]);
+        this.flushing = false;
+    };
+
+    public destroy() {
+        window.removeEventListener('online', this.flushQueue);
+    }
+}
@@ -0,0 +1,262 @@
+/**
+ * Typed content model for the world sections.
+ * Services, portfolio, timeline, team and testimonials are described as data
+ * (see site-content.ts), validated, and rendered into the containers marked
+ * with `data-content` in index.html. The markup matches what the styles and
+ * main.ts selectors (.service-card, .portfolio-card, …) expect.
+ */
+
+export interface ServiceContent {
+    /** Slug, also used as data-service and in the element id */
+    id: string;
+    icon: string;
+    title: string;
+    description: string;
+    tags: string[];
+}
+
+export interface PortfolioContent {
+    id: string;
+    icon: string;
+    category: string;
+    title: string;
+    description: string;
+    /** glTF/GLB shown in the model viewer; the card opens the viewer when set */
+    model?: string;
+    /** Still image the viewer falls back to if the model can't be shown */
+    poster?: string;
+}
+
+export interface TimelineContent {
+    year: string;
+    title: string;
+    description: string;
+}
+
+export interface TeamMemberContent {
+    id: string;
+    name: string;
+    role: string;
+    bio: string;
+}
+
+export interface TestimonialContent {
+    id: string;
+    quote: string;
+    author: string;
+    role: string;
+}
+
+export interface SiteContent {
+    services: ServiceContent[];
+    portfolio: PortfolioContent[];
+    timeline: TimelineContent[];
+    team: TeamMemberContent[];
+    testimonials: TestimonialContent[];
+}
+
+export type ContentSection = keyof SiteContent;
+
+// ─── VALIDATION ───
+
+type FieldSpec = Record<string, 'string' | 'string?' | 'string[]'>;
+
+const SCHEMA: Record<ContentSection, FieldSpec> = {
+    services: { id: 'string', icon: 'string', title: 'string', description: 'string', tags: 'string[]' },
+    portfolio: { id: 'string', icon: 'string', category: 'string', title: 'string', description: 'string', model: 'string?', poster: 'string?' },
+    timeline: { year: 'string', title: 'string', description: 'string' },
+    team: { id: 'string', name: 'string', role: 'string', bio: 'string' },
+    testimonials: { id: 'string', quote: 'string', author: 'string', role: 'string' },
+};
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+/**
+ * Check untyped data (e.g. parsed JSON) against the schema.
+ * Returns human-readable errors keyed by path; an empty array means valid.
+ */
+export function validateContent(data: unknown): string[] {
+    const errors: string[] = [];
+    if (typeof data !== 'object' || data === null) {
+        return ['content: expected an object'];
+    }
+
+    (Object.keys(SCHEMA) as ContentSection[]).forEach((section) => {
+        const items = (data as Record<string, unknown>)[section];
+        if (!Array.isArray(items)) {
+            errors.push(`${section}: expected an array`);
+            return;
+        }
+
+        const seenIds = new Set<string>();
+        items.forEach((item, i) => {
+            const path = `${section}[${i}]`;
+            if (typeof item !== 'object' || item === null) {
+                errors.push(`${path}: expected an object`);
+                return;
+            }
+            Object.entries(SCHEMA[section]).forEach(([field, type]) => {
+                const value = (item as Record<string, unknown>)[field];
+                if (type === 'string' && !isNonEmptyString(value)) {
+                    errors.push(`${path}.${field}: expected a non-empty string`);
+                }
+                if (type === 'string?' && value !== undefined && !isNonEmptyString(value)) {
+                    errors.push(`${path}.${field}: expected a non-empty string when set`);
+                }
+                if (type === 'string[]' && !(Array.isArray(value) && value.every(isNonEmptyString))) {
+                    errors.push(`${path}.${field}: expected an array of non-empty strings`);
+                }
+            });
+
+            const id = (item as Record<string, unknown>).id;
+            if (typeof id === 'string') {
+                if (!/^[a-z0-9-]+$/.test(id)) errors.push(`${path}.id: "${id}" must be a lowercase slug`);
+                if (seenIds.has(id)) errors.push(`${path}.id: duplicate id "${id}"`);
+                seenIds.add(id);
+            }
+        });
+    });
+
+    return errors;
+}
+
+// ─── RENDERING ───
+
+function el(tag: string, className?: string, text?: string): HTMLElement {
+    const node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+}
+
+const initialOf = (name: string) => name.trim().charAt(0).toUpperCase();
+
+/** Cards that tilt on hover take keyboard focus too, so focus can tilt them */
+function focusable(node: HTMLElement, label: string) {
+    node.tabIndex = 0;
+    node.setAttribute('role', 'article');
+    node.setAttribute('aria-label', label);
+}
+
+function renderService(service: ServiceContent, index: number): HTMLElement {
+    const card = el('div', 'service-card');
+    card.id = `service-${service.id}`;
+    card.dataset.service = service.id;
+    focusable(card, service.title);
+
+    card.append(el('div', 'service-number', String(index + 1).padStart(2, '0')));
+
+    const visual = el('div', 'service-visual');
+    const iconWrap = el('div', 'service-icon-wrap');
+    iconWrap.append(el('div', 'hologram-ring'), el('div', 'hologram-ring r2'), el('div', 'service-icon', service.icon));
+    visual.append(iconWrap);
+    card.append(visual);
+
+    const info = el('div', 'service-info');
+    const tags = el('div', 'service-tags');
+    service.tags.forEach(tag => tags.append(el('span', 'tag', tag)));
+    info.append(el('h3', undefined, service.title), el('p', undefined, service.description), tags);
+    card.append(info, el('div', 'service-glow'));
+    return card;
+}
+
+function renderPortfolio(item: PortfolioContent): HTMLElement {
+    const card = el('div', 'portfolio-card');
+    card.id = `portfolio-${item.id}`;
+    if (item.model) {
+        // Opens the model viewer (wired up in main.ts)
+        card.dataset.portfolio = item.id;
+        card.tabIndex = 0;
+        card.setAttribute('role', 'button');
+        card.setAttribute('aria-label', `View ${item.title} in 3D`);
+    } else {
+        focusable(card, item.title);
+    }
+
+    const visual = el('div', 'portfolio-visual');
+    visual.append(el('div', 'portfolio-icon', item.icon), el('div', 'portfolio-overlay'));
+
+    const info = el('div', 'portfolio-info');
+    info.append(
+        el('span', 'portfolio-category', item.category),
+        el('h3', undefined, item.title),
+        el('p', undefined, item.description),
+    );
+    card.append(visual, info);
+    return card;
+}
+
+function renderTimelineItem(item: TimelineContent): HTMLElement {
+    const node = el('div', 'timeline-item');
+    node.dataset.year = item.year;
+
+    const content = el('div', 'timeline-content');
+    content.append(el('h4', undefined, item.title), el('p', undefined, item.description));
+    node.append(el('div', 'timeline-node'), content);
+    return node;
+}
+
+function renderTeamMember(member: TeamMemberContent): HTMLElement {
+    const node = el('div', 'team-member');
+    node.id = `member-${member.id}`;
+    focusable(node, `${member.name}, ${member.role}`);
+
+    const avatar = el('div', 'member-avatar');
+    avatar.append(el('div', 'avatar-ring'), el('span', 'avatar-initial', initialOf(member.name)));
+    node.append(
+        avatar,
+        el('h4', undefined, member.name),
+        el('span', 'member-role', member.role),
+        el('p', 'member-bio', member.bio),
+    );
+    return node;
+}
+
+function renderTestimonial(item: TestimonialContent): HTMLElement {
+    const card = el('div', 'testimonial-card');
+    card.id = `testimonial-${item.id}`;
+    focusable(card, `Testimonial from ${item.author}`);
+
+    const author = el('div', 'testimonial-author');
+    const avatar = el('div', 'author-avatar');
+    avatar.append(el('span', undefined, initialOf(item.author)));
+    const info = el('div', 'author-info');
+    info.append(el('h4', undefined, item.author), el('span', undefined, item.role));
+    author.append(avatar, info);
+
+    card.append(el('div', 'testimonial-quote', '"'), el('p', 'testimonial-text', item.quote), author);
+    return card;
+}
+
+const RENDERERS: { [K in ContentSection]: (item: SiteContent[K][number], index: number) => HTMLElement } = {
+    services: renderService,
+    portfolio: renderPortfolio,
+    timeline: renderTimelineItem,
+    team: renderTeamMember,
+    testimonials: renderTestimonial,
+};
+
+/**
+ * Validate and render every section into its `[data-content]` container.
+ * Rendered items are tagged for the reveal engine with their section as group.
+ * Must run before anything queries the cards (reveal, tilt, hover sounds).
+ */
+export function renderContent(content: SiteContent, root: ParentNode = document) {
+    const errors = validateContent(content);
+    if (errors.length > 0) {
+        errors.forEach(err => console.error(`Invalid site content — ${err}`));
+        return;
+    }
+
+    (Object.keys(RENDERERS) as ContentSection[]).forEach((section) => {
+        const container = root.querySelector(`[data-content="${section}"]`);
+        if (!container) return;
+        const render = RENDERERS[section] as (item: unknown, index: number) => HTMLElement;
+        container.append(...content[section].map((item, i) => {
+            const node = render(item, i);
+            node.dataset.reveal = '';
+            node.dataset.revealGroup = section;
+            return node;
+        }));
+    });
+}
@@ -0,0 +1,248 @@
+import type { MotionPreference } from './motion';
+import type { SectionScroll } from './router';
+import { ticker, TickPriority, type FrameInfo } from './ticker';
+import { Lifetime, type Disposable } from './lifecycle';
+import { theme, type ThemeToken } from './theme';
+import type { Random } from './random';
+
+/**
+ * 2D-canvas fallbacks for the portal and world backgrounds.
+ * Used when WebGL is unavailable, blocked, or the renderer fails to start,
+ * so the site stays fully usable without a GPU context.
+ */
+
+export type RenderMode = 'webgl' | 'canvas2d';
+
+// Read from the theme at draw time, so theme switches show up on the next frame
+const BRAND_COLORS: ThemeToken[] = ['primary', 'secondary', 'accent'];
+
+/** True when a WebGL context can actually be created on this device */
+export function supportsWebGL(): boolean {
+    try {
+        const probe = document.createElement('canvas');
+        const gl = probe.getContext('webgl2') || probe.getContext('webgl');
+        if (!gl) return false;
+        (gl as WebGLRenderingContext).getExtension('WEBGL_lose_context')?.loseContext();
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * A canvas that already handed out a WebGL context can't give a 2D one,
+ * so swap in a fresh copy before falling back.
+ */
+export function replaceCanvas(canvas: HTMLCanvasElement): HTMLCanvasElement {
+    const fresh = canvas.cloneNode(false) as HTMLCanvasElement;
+    canvas.replaceWith(fresh);
+    return fresh;
+}
+
+interface Star {
+    x: number;
+    y: number;
+    depth: number;
+    size: number;
+    color: ThemeToken;
+    phase: number;
+}
+
+function createStars(count: number, random: Random): Star[] {
+    const stars: Star[] = [];
+    for (let i = 0; i < count; i++) {
+        stars.push({
+            x: random(),
+            y: random(),
+            depth: 0.2 + random() * 0.8,
+            size: random() * 1.4 + 0.3,
+            color: BRAND_COLORS[Math.floor(random() * BRAND_COLORS.length)],
+            phase: random() * Math.PI * 2,
+        });
+    }
+    return stars;
+}
+
+abstract class Canvas2DScene implements Disposable {
+    protected ctx: CanvasRenderingContext2D;
+    protected width: number = 0;
+    protected height: number = 0;
+    protected time: number = 0;
+    protected isDestroyed: boolean = false;
+    protected lifetime: Lifetime = new Lifetime();
+
+    constructor(protected canvas: HTMLCanvasElement, protected motion: MotionPreference, protected random: Random = Math.random) {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('2D canvas context unavailable');
+        this.ctx = ctx;
+        this.resize();
+        this.lifetime.listen(window, 'resize', this.resize);
+        this.lifetime.add(ticker.add(this.animate, { priority: TickPriority.RENDER, element: canvas }));
+    }
+
+    protected abstract draw(): void;
+
+    private resize = () => {
+        const ratio = Math.min(window.devicePixelRatio, 1.5);
+        this.width = window.innerWidth;
+        this.height = window.innerHeight;
+        this.canvas.width = this.width * ratio;
+        this.canvas.height = this.height * ratio;
+        this.ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    };
+
+    private animate = (frame: FrameInfo) => {
+        if (this.isDestroyed) return;
+        this.time += frame.delta * this.motion.scale;
+        this.draw();
+    };
+
+    protected drawStars(stars: Star[], offsetY: number) {
+        const { ctx } = this;
+        stars.forEach((star) => {
+            const y = ((star.y - offsetY * star.depth) % 1 + 1) % 1;
+            const twinkle = Math.sin(this.time * 2 + star.phase) * 0.5 + 0.5;
+            ctx.globalAlpha = (0.2 + twinkle * 0.4) * star.depth;
+            ctx.fillStyle = theme.hex(star.color);
+            ctx.beginPath();
+            ctx.arc(star.x * this.width, y * this.height, star.size * star.depth, 0, Math.PI * 2);
+            ctx.fill();
+        });
+        ctx.globalAlpha = 1;
+    }
+
+    public destroy() {
+        this.isDestroyed = true;
+        this.lifetime.destroy();
+    }
+}
+
+export class FallbackPortalScene extends Canvas2DScene {
+    private stars: Star[] = createStars(240, this.random);
+    private zoom: number = 0;
+
+    constructor(canvas: HTMLCanvasElement, motion: MotionPreference, random: Random = Math.random) {
+        super(canvas, motion, random);
+
+        this.lifetime.timeout(() => {
+            const loader = document.getElementById('loading-overlay');
+            if (loader) loader.classList.add('hidden');
+        }, 300);
+    }
+
+    protected draw() {
+        const { ctx, width, height, time } = this;
+        const cx = width / 2;
+        const cy = height / 2;
+        const radius = Math.min(width, height) * 0.16 * (1 + this.zoom * 4);
+
+        ctx.clearRect(0, 0, width, height);
+        this.drawStars(this.stars, 0);
+
+        // Globe glow
+        const glow = ctx.createRadialGradient(cx, cy, radius * 0.2, cx, cy, radius * 1.6);
+        glow.addColorStop(0, theme.rgba('primary', 0.35 + this.zoom * 0.6));
+        glow.addColorStop(0.5, theme.rgba('secondary', 0.12));
+        glow.addColorStop(1, theme.rgba('background', 0));
+        ctx.fillStyle = glow;
+        ctx.fillRect(0, 0, width, height);
+
+        // Globe shell
+        ctx.strokeStyle = theme.rgba('primary', 0.5);
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+        ctx.stroke();
+
+        // Orbiting rings
+        const rings = [
+            { scale: 1.5, tilt: 0.35, speed: 0.3 },
+            { scale: 1.75, tilt: -0.5, speed: -0.2 },
+            { scale: 2.0, tilt: 0.18, speed: 0.15 },
+        ];
+        ctx.globalAlpha = 0.35 * (1 - this.zoom);
+        rings.forEach((ring, i) => {
+            ctx.strokeStyle = theme.hex(BRAND_COLORS[i]);
+            ctx.beginPath();
+            ctx.ellipse(cx, cy, radius * ring.scale, radius * ring.scale * 0.3, ring.tilt + time * ring.speed * 0.1, 0, Math.PI * 2);
+            ctx.stroke();
+        });
+        ctx.globalAlpha = 1;
+    }
+
+    /** 2D stand-in for the camera zoom: the globe swells and brightens */
+    public transitionOut(): Promise<void> {
+        return new Promise((resolve) => {
+            const duration = 0.7;
+            let elapsed = 0;
+            const removeTransition = ticker.add((frame) => {
+                elapsed += frame.delta;
+                const progress = Math.min(elapsed / duration, 1);
+                this.zoom = 1 - Math.pow(1 - progress, 3);
+                if (progress >= 1) {
+                    removeTransition();
+                    resolve();
+                }
+            }, { priority: TickPriority.SIMULATION });
+            this.lifetime.add(() => {
+                removeTransition();
+                resolve();
+            });
+        });
+    }
+
+    /** Reverse of transitionOut: the swollen globe settles back down */
+    public transitionIn(): Promise<void> {
+        this.zoom = 1;
+        return new Promise((resolve) => {
+            const duration = 1.1;
+            let elapsed = 0;
+            const removeTransition = ticker.add((frame) => {
+                elapsed += frame.delta;
+                const progress = Math.min(elapsed / duration, 1);
+                this.zoom = Math.pow(1 - progress, 3);
+                if (progress >= 1) {
+                    removeTransition();
+                    resolve();
+                }
+            }, { priority: TickPriority.SIMULATION });
+            this.lifetime.add(() => {
+                removeTransition();
+                resolve();
+            });
+        });
+    }
+}
+
+export class FallbackWorldScene extends Canvas2DScene {
+    private stars: Star[] = createStars(320, this.random);
+    private scrollProgress: number = 0;
+
+    public updateScroll(scroll: SectionScroll) {
+        this.scrollProgress = scroll.progress;
+    }
+
+    protected draw() {
+        const { ctx, width, height } = this;
+
+        ctx.clearRect(0, 0, width, height);
+        this.drawStars(this.stars, this.scrollProgress * 0.5);
+
+        // Perspective grid floor
+        const horizon = height * (0.62 + this.scrollProgress * 0.1);
+        ctx.strokeStyle = theme.rgba('primary', 0.06);
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let i = -12; i <= 12; i++) {
+            ctx.moveTo(width / 2, horizon);
+            ctx.lineTo(width / 2 + i * width * 0.12, height);
+        }
+        for (let i = 1; i <= 10; i++) {
+            const t = i / 10;
+            const y = horizon + (height - horizon) * t * t;
+            ctx.moveTo(0, y);
+            ctx.lineTo(width, y);
+        }
+        ctx.stroke();
+    }
+}
@@ -0,0 +1,233 @@
+import * as THREE from 'three';
+import { Lifetime, type Disposable } from './lifecycle';
+import { themed, type ThemeToken } from './theme';
+
+/**
+ * Clickable hotspots on the portal globe.
+ * Each service gets a glowing marker on the globe surface, and the ring data
+ * dots are dealt out between the services in turn. The pointer ray picks the
+ * nearest visible hotspot (markers on the far side of the globe and dots
+ * hidden behind it are skipped). The hovered service's markers and dots swell.
+ */
+
+export interface Hotspot {
+    /** Service id; the matching card is `#service-<id>` */
+    id: string;
+    label: string;
+}
+
+export interface HotspotHover {
+    id: string;
+    label: string;
+    /** Client coordinates of the hovered marker or dot, for placing a label */
+    x: number;
+    y: number;
+}
+
+type HoverListener = (hover: HotspotHover | null) => void;
+type SelectListener = (id: string) => void;
+
+interface Target {
+    object: THREE.Mesh;
+    hotspot: number;
+    /** Markers sit on the globe; dots orbit on the rings */
+    onGlobe: boolean;
+    baseOpacity: number;
+}
+
+const MARKER_COLORS: ThemeToken[] = ['primary', 'accent', 'highlight', 'secondary', 'warm'];
+// Ray-to-hotspot distance (world units) that still counts as a hit
+const HIT_RADIUS = 0.12;
+const HOVER_SCALE = 2.2;
+
+const worldPos = new THREE.Vector3();
+const toCamera = new THREE.Vector3();
+const globeHit = new THREE.Vector3();
+
+export class GlobeHotspots implements Disposable {
+    private targets: Target[] = [];
+    private markers: THREE.Mesh[] = [];
+    private raycaster: THREE.Raycaster = new THREE.Raycaster();
+    private pointer: THREE.Vector2 = new THREE.Vector2();
+    private pointerInside: boolean = false;
+    private hovered: number = -1;
+    // Marker or dot the pointer is on, which the label follows
+    private anchor: THREE.Object3D | null = null;
+    private enabled: boolean = true;
+    private lifetime: Lifetime = new Lifetime();
+    private hoverListeners: Set<HoverListener> = new Set();
+    private selectListeners: Set<SelectListener> = new Set();
+    private globeSphere: THREE.Sphere;
+
+    constructor(
+        private canvas: HTMLCanvasElement,
+        private camera: THREE.PerspectiveCamera,
+        private globe: THREE.Mesh,
+        rings: THREE.Group,
+        private hotspots: Hotspot[],
+    ) {
+        const radius = (globe.geometry as THREE.SphereGeometry).parameters.radius;
+        this.globeSphere = new THREE.Sphere(new THREE.Vector3(), radius);
+
+        // Markers spread over the globe on a golden-angle spiral, kept away from the poles
+        const markerGeo = new THREE.SphereGeometry(0.045, 12, 12);
+        hotspots.forEach((_, i) => {
+            const y = 0.6 - (i / Math.max(hotspots.length - 1, 1)) * 1.2;
+            const theta = i * Math.PI * (3 - Math.sqrt(5));
+            const r = Math.sqrt(1 - y * y);
+            const marker = new THREE.Mesh(markerGeo, themed(new THREE.MeshBasicMaterial({
+                transparent: true,
+                opacity: 0.7,
+                blending: THREE.AdditiveBlending,
+                depthWrite: false,
+            }), MARKER_COLORS[i % MARKER_COLORS.length]));
+            marker.position.set(Math.cos(theta) * r, y, Math.sin(theta) * r).multiplyScalar(radius * 1.02);
+            globe.add(marker);
+            this.markers.push(marker);
+            this.targets.push({ object: marker, hotspot: i, onGlobe: true, baseOpacity: 0.7 });
+        });
+
+        // Ring dots are dealt out round-robin so every service shows up on every ring
+        let dotIndex = 0;
+        rings.children.forEach((ring) => {
+            ring.children.forEach((dot) => {
+                const mat = (dot as THREE.Mesh).material as THREE.MeshBasicMaterial;
+                this.targets.push({ object: dot as THREE.Mesh, hotspot: dotIndex % hotspots.length, onGlobe: false, baseOpacity: mat.opacity });
+                dotIndex++;
+            });
+        });
+
+        this.lifetime.listen(canvas, 'pointermove', this.handlePointerMove);
+        this.lifetime.listen(canvas, 'pointerleave', () => { this.pointerInside = false; });
+        this.lifetime.listen(canvas, 'click', this.handleClick);
+    }
+
+    public onHover(listener: HoverListener): () => void {
+        this.hoverListeners.add(listener);
+        return () => this.hoverListeners.delete(listener);
+    }
+
+    public onSelect(listener: SelectListener): () => void {
+        this.selectListeners.add(listener);
+        return () => this.selectListeners.delete(listener);
+    }
+
+    /** Turned off while the portal transitions so nothing can be picked mid-zoom */
+    public setEnabled(enabled: boolean) {
+        this.enabled = enabled;
+        if (!enabled) this.setHovered(-1);
+    }
+
+    /** Per frame: pick, ease the highlight, and keep the label on its hotspot */
+    public update() {
+        const target = this.enabled && this.pointerInside ? this.pick() : null;
+        this.anchor = target?.object ?? null;
+        this.setHovered(target ? target.hotspot : -1);
+
+        this.targets.forEach((target) => {
+            const active = target.hotspot === this.hovered;
+            const scale = target.object.scale.x + ((active ? HOVER_SCALE : 1) - target.object.scale.x) * 0.2;
+            target.object.scale.setScalar(scale);
+            const mat = target.object.material as THREE.MeshBasicMaterial;
+            mat.opacity = Math.min(target.baseOpacity * (active ? 2.2 : 1), 1);
+        });
+
+        if (this.hovered !== -1) this.emitHover();
+    }
+
+    public destroy() {
+        this.setHovered(-1);
+        this.lifetime.destroy();
+        this.hoverListeners.clear();
+        this.selectListeners.clear();
+        this.markers.forEach((marker) => {
+            this.globe.remove(marker);
+            (marker.material as THREE.Material).dispose();
+        });
+        this.markers[0]?.geometry.dispose();
+        this.markers = [];
+        this.targets = [];
+    }
+
+    private handlePointerMove = (e: PointerEvent) => {
+        this.setPointer(e);
+    };
+
+    private handleClick = (e: MouseEvent) => {
+        if (!this.enabled) return;
+        // Taps have no hover beforehand, so pick at the click position
+        this.setPointer(e);
+        const target = this.pick();
+        if (!target) return;
+        const id = this.hotspots[target.hotspot].id;
+        this.selectListeners.forEach(l => l(id));
+    };
+
+    private setPointer(e: MouseEvent) {
+        const rect = this.canvas.getBoundingClientRect();
+        this.pointer.set(
+            ((e.clientX - rect.left) / rect.width) * 2 - 1,
+            -((e.clientY - rect.top) / rect.height) * 2 + 1,
+        );
+        this.pointerInside = true;
+    }
+
+    /** Nearest visible marker or dot under the pointer */
+    private pick(): Target | null {
+        this.raycaster.setFromCamera(this.pointer, this.camera);
+        const ray = this.raycaster.ray;
+        this.globeSphere.center.setFromMatrixPosition(this.globe.matrixWorld);
+        const globeDistance = ray.intersectSphere(this.globeSphere, globeHit)
+            ? globeHit.distanceTo(ray.origin)
+            : Infinity;
+
+        let best: Target | null = null;
+        let bestDistance = Infinity;
+        this.targets.forEach((target) => {
+            if (!this.isVisible(target.object)) return;
+            target.object.getWorldPosition(worldPos);
+            if (ray.distanceSqToPoint(worldPos) > HIT_RADIUS * HIT_RADIUS) return;
+
+            const distance = worldPos.distanceTo(ray.origin);
+            if (target.onGlobe) {
+                // Skip markers on the far hemisphere
+                toCamera.subVectors(ray.origin, worldPos);
+                if (worldPos.sub(this.globeSphere.center).dot(toCamera) < 0) return;
+            } else if (distance > globeDistance + 0.05) {
+                return;
+            }
+
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = target;
+            }
+        });
+        return best;
+    }
+
+    private isVisible(object: THREE.Object3D): boolean {
+        for (let o: THREE.Object3D | null = object; o; o = o.parent) {
+            if (!o.visible) return false;
+        }
+        return true;
+    }
+
+    private setHovered(index: number) {
+        if (index === this.hovered) return;
+        this.hovered = index;
+        this.canvas.style.cursor = index === -1 ? '' : 'pointer';
+        if (index === -1) this.hoverListeners.forEach(l => l(null));
+    }
+
+    private emitHover() {
+        const anchor = this.anchor ?? this.markers[this.hovered];
+        anchor.getWorldPosition(worldPos).project(this.camera);
+        const rect = this.canvas.getBoundingClientRect();
+        const hover: HotspotHover = {
+            ...this.hotspots[this.hovered],
+            x: rect.left + (worldPos.x * 0.5 + 0.5) * rect.width,
+            y: rect.top + (-worldPos.y * 0.5 + 0.5) * rect.height,
+        };
+        this.hoverListeners.forEach(l => l(hover));
+    }
+}
@@ -0,0 +1,294 @@
+import * as THREE from 'three';
+import { ticker, TickPriority, type FrameInfo } from './ticker';
+import { Lifetime, type Disposable } from './lifecycle';
+
+/**
+ * Developer overlay, opened with ?debug in dev builds.
+ * Graphs frame rate and the ticker's per-frame work, shows renderer.info for
+ * the scene on screen, lists its scene graph and exposes the scene's tuning
+ * controls. Tweaks can be exported as a scene.json snippet. main.ts imports
+ * this module dynamically behind import.meta.env.DEV, so production builds
+ * leave it out entirely.
+ */
+
+export interface TweakControl {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    get(): number;
+    set(value: number): void;
+}
+
+export interface InspectorTarget {
+    name: string;
+    renderer: THREE.WebGLRenderer;
+    scene: THREE.Scene;
+    controls: TweakControl[];
+}
+
+/** A scene that can describe itself to the inspector */
+export interface Inspectable {
+    inspect(): InspectorTarget;
+}
+
+// Frames of history in each graph
+const HISTORY = 120;
+const GRAPH_WIDTH = HISTORY * 2;
+const GRAPH_HEIGHT = 40;
+// Seconds between renderer.info readouts
+const STATS_INTERVAL = 0.25;
+// Deeper scene-graph levels start collapsed
+const OPEN_DEPTH = 1;
+
+const STYLE = `
+.gallant-inspector {
+  position: fixed; top: 12px; left: 12px; z-index: 10000; width: 280px; max-height: calc(100vh - 24px);
+  overflow: auto; padding: 10px; border: 1px solid rgba(var(--neon-blue-rgb), 0.3); border-radius: 8px;
+  background: rgba(var(--space-deep-rgb), 0.9); color: #cfd8ef; font: 11px/1.4 ui-monospace, monospace;
+}
+.gallant-inspector.collapsed > :not(header) { display: none; }
+.gallant-inspector header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 6px; }
+.gallant-inspector h2 { margin: 10px 0 4px; font-size: 11px; color: var(--neon-blue); text-transform: uppercase; }
+.gallant-inspector button { font: inherit; color: inherit; background: rgba(255, 255, 255, 0.08); border: 0; border-radius: 4px; padding: 2px 8px; cursor: pointer; }
+.gallant-inspector canvas { display: block; width: 100%; height: ${GRAPH_HEIGHT}px; background: rgba(255, 255, 255, 0.04); }
+.gallant-inspector dl { display: grid; grid-template-columns: 1fr auto; margin: 0; }
+.gallant-inspector dd { margin: 0; text-align: right; }
+.gallant-inspector label { display: grid; grid-template-columns: 1fr 90px 40px; gap: 6px; align-items: center; }
+.gallant-inspector output { text-align: right; }
+.gallant-inspector details { padding-left: 10px; }
+.gallant-inspector summary.leaf { list-style: none; }
+.gallant-inspector .hidden-node { opacity: 0.45; }
+.gallant-inspector textarea { width: 100%; height: 120px; margin-top: 6px; font: inherit; color: inherit; background: rgba(255, 255, 255, 0.04); border: 0; }
+`;
+
+function el<K extends keyof HTMLElementTagNameMap>(tag: K, text?: string): HTMLElementTagNameMap[K] {
+    const node = document.createElement(tag);
+    if (text !== undefined) node.textContent = text;
+    return node;
+}
+
+class Graph {
+    readonly canvas: HTMLCanvasElement = el('canvas');
+    private ctx: CanvasRenderingContext2D;
+    private samples: Float32Array = new Float32Array(HISTORY);
+    private head: number = 0;
+
+    /** `guide` draws a reference line, e.g. the 60 fps frame time */
+    constructor(private max: number, private color: string, private guide?: number) {
+        this.canvas.width = GRAPH_WIDTH;
+        this.canvas.height = GRAPH_HEIGHT;
+        this.ctx = this.canvas.getContext('2d') as CanvasRenderingContext2D;
+    }
+
+    public push(value: number) {
+        this.samples[this.head] = value;
+        this.head = (this.head + 1) % HISTORY;
+    }
+
+    public draw() {
+        const { ctx } = this;
+        ctx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+        if (this.guide !== undefined) {
+            const y = GRAPH_HEIGHT - (this.guide / this.max) * GRAPH_HEIGHT;
+            ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+            ctx.fillRect(0, y, GRAPH_WIDTH, 1);
+        }
+        ctx.fillStyle = this.color;
+        for (let i = 0; i < HISTORY; i++) {
+            const value = this.samples[(this.head + i) % HISTORY];
+            const h = Math.min(value / this.max, 1) * GRAPH_HEIGHT;
+            ctx.fillRect(i * 2, GRAPH_HEIGHT - h, 2, h);
+        }
+    }
+}
+
+export class Inspector implements Disposable {
+    private lifetime: Lifetime = new Lifetime();
+    // Slider listeners, replaced whenever the target changes
+    private controlsLifetime: Lifetime | null = null;
+    private root: HTMLElement = el('aside');
+    private style: HTMLStyleElement = el('style', STYLE);
+    private title: HTMLElement = el('strong');
+    private fpsLabel: HTMLElement = el('span');
+    private workLabel: HTMLElement = el('span');
+    private fpsGraph: Graph = new Graph(120, '#00ffaa', 60);
+    private workGraph: Graph = new Graph(33, '#00d4ff', 1000 / 60);
+    private stats: HTMLElement = el('dl');
+    private controls: HTMLElement = el('div');
+    private tree: HTMLElement = el('div');
+    private exported: HTMLTextAreaElement = el('textarea');
+
+    private source: Inspectable | null = null;
+    private target: InspectorTarget | null = null;
+    private frameStart: number = 0;
+    private lastNow: number = 0;
+    private sinceStats: number = 0;
+
+    constructor(
+        private resolveSource: () => Inspectable | null,
+        private exportConfig: () => object,
+    ) {
+        this.build();
+        document.head.append(this.style);
+        document.body.append(this.root);
+
+        // Bracket every other subscriber to time the whole frame's work
+        this.lifetime.add(ticker.add(this.beginFrame, { priority: TickPriority.INPUT - 1 }));
+        this.lifetime.add(ticker.add(this.endFrame, { priority: TickPriority.UI + 1 }));
+    }
+
+    public destroy() {
+        this.lifetime.destroy();
+        if (this.target) this.target.renderer.info.autoReset = true;
+        this.target = null;
+        this.root.remove();
+        this.style.remove();
+    }
+
+    private build() {
+        this.root.className = 'gallant-inspector';
+        this.root.setAttribute('aria-label', 'Scene inspector');
+
+        const header = el('header');
+        const toggle = el('button', '–');
+        toggle.setAttribute('aria-label', 'Collapse inspector');
+        this.lifetime.listen(toggle, 'click', () => {
+            const collapsed = this.root.classList.toggle('collapsed');
+            toggle.textContent = collapsed ? '+' : '–';
+        });
+        header.append(this.title, toggle);
+
+        const refresh = el('button', 'Refresh');
+        this.lifetime.listen(refresh, 'click', () => this.renderTree());
+        const treeHeading = el('h2', 'Scene graph ');
+        treeHeading.append(refresh);
+
+        const exportButton = el('button', 'Export config');
+        this.lifetime.listen(exportButton, 'click', () => this.export());
+        this.exported.readOnly = true;
+        this.exported.hidden = true;
+
+        this.root.append(
+            header,
+            el('h2', 'Frame rate'), this.fpsLabel, this.fpsGraph.canvas,
+            el('h2', 'Frame work'), this.workLabel, this.workGraph.canvas,
+            el('h2', 'Renderer'), this.stats,
+            el('h2', 'Controls'), this.controls, exportButton, this.exported,
+            treeHeading, this.tree,
+        );
+        this.attach(null);
+    }
+
+    private beginFrame = () => {
+        this.frameStart = performance.now();
+
+        // The portal and world scenes come and go; follow whichever is on screen
+        const source = this.resolveSource();
+        if (source !== this.source) {
+            this.source = source;
+            this.attach(source?.inspect() ?? null);
+        }
+    };
+
+    private endFrame = (frame: FrameInfo) => {
+        const work = performance.now() - this.frameStart;
+        const interval = this.lastNow > 0 ? frame.now - this.lastNow : 0;
+        this.lastNow = frame.now;
+
+        this.fpsGraph.push(interval > 0 ? 1000 / interval : 0);
+        this.workGraph.push(work);
+        this.fpsGraph.draw();
+        this.workGraph.draw();
+
+        this.sinceStats += frame.delta;
+        if (this.sinceStats >= STATS_INTERVAL) {
+            this.sinceStats = 0;
+            this.fpsLabel.textContent = interval > 0 ? `${(1000 / interval).toFixed(0)} fps · ${interval.toFixed(1)} ms` : '';
+            this.workLabel.textContent = `${work.toFixed(2)} ms in the ticker`;
+            this.renderStats();
+        }
+        // Counts accumulate across the post-processing passes; start each frame from zero
+        this.target?.renderer.info.reset();
+    };
+
+    private attach(target: InspectorTarget | null) {
+        // Let the previous renderer reset its own counters again
+        if (this.target) this.target.renderer.info.autoReset = true;
+        this.target = target;
+        if (target) target.renderer.info.autoReset = false;
+
+        this.title.textContent = target ? `Inspector · ${target.name}` : 'Inspector · no WebGL scene';
+        this.renderStats();
+        this.renderControls();
+        this.renderTree();
+    }
+
+    private renderStats() {
+        this.stats.replaceChildren();
+        if (!this.target) return;
+        const info = this.target.renderer.info;
+        const rows: [string, number | string][] = [
+            ['Draw calls', info.render.calls],
+            ['Triangles', info.render.triangles],
+            ['Points', info.render.points],
+            ['Lines', info.render.lines],
+            ['Geometries', info.memory.geometries],
+            ['Textures', info.memory.textures],
+            ['Programs', info.programs?.length ?? '–'],
+            ['Pixel ratio', this.target.renderer.getPixelRatio().toFixed(2)],
+        ];
+        rows.forEach(([label, value]) => this.stats.append(el('dt', label), el('dd', String(value))));
+    }
+
+    private renderControls() {
+        this.controlsLifetime?.destroy();
+        this.controlsLifetime = this.lifetime.child();
+        const lifetime = this.controlsLifetime;
+        this.controls.replaceChildren();
+        this.exported.hidden = true;
+        this.target?.controls.forEach((control) => {
+            const label = el('label', control.label);
+            const input = el('input');
+            input.type = 'range';
+            input.min = String(control.min);
+            input.max = String(control.max);
+            input.step = String(control.step);
+            input.value = String(control.get());
+            const output = el('output', String(control.get()));
+            lifetime.listen(input, 'input', () => {
+                control.set(Number(input.value));
+                output.textContent = input.value;
+            });
+            label.append(input, output);
+            this.controls.append(label);
+        });
+    }
+
+    private renderTree() {
+        this.tree.replaceChildren();
+        if (!this.target) return;
+        this.target.scene.children.forEach(child => this.tree.append(this.treeNode(child, 0)));
+    }
+
+    private treeNode(object: THREE.Object3D, depth: number): HTMLElement {
+        const node = el('details');
+        node.open = depth < OPEN_DEPTH;
+        const name = object.name ? ` "${object.name}"` : '';
+        const count = object.children.length > 0 ? ` (${object.children.length})` : '';
+        const summary = el('summary', `${object.type}${name}${count}`);
+        if (object.children.length === 0) summary.className = 'leaf';
+        if (!object.visible) node.classList.add('hidden-node');
+        node.append(summary);
+        object.children.forEach(child => node.append(this.treeNode(child, depth + 1)));
+        return node;
+    }
+
+    private export() {
+        const snippet = JSON.stringify(this.exportConfig(), null, 2);
+        this.exported.value = snippet;
+        this.exported.hidden = false;
+        this.exported.select();
+        navigator.clipboard?.writeText(snippet).catch(() => { });
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * Lifecycle contract for scenes and UI bindings.
+ * Anything that registers DOM listeners, ticker callbacks, timers or
+ * subscriptions owns a Lifetime and releases all of it in one `destroy()`.
+ * DOM listeners are bound to the lifetime's AbortSignal, so nothing has to
+ * keep a reference to the handler just to remove it later.
+ */
+
+/** Implemented by every scene, engine and binding that must be torn down */
+export interface Disposable {
+    destroy(): void;
+}
+
+type Cleanup = () => void;
+
+// Bindings held by all live lifetimes — the leak check for round trips
+let liveBindings = 0;
+
+/** Listeners, timers and cleanups currently held across every Lifetime */
+export function activeBindings(): number {
+    return liveBindings;
+}
+
+export class Lifetime implements Disposable {
+    private controller = new AbortController();
+    private cleanups: Cleanup[] = [];
+    private listenerCount: number = 0;
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    get destroyed(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    /** Registered listeners and cleanups, for leak checks */
+    get size(): number {
+        return this.listenerCount + this.cleanups.length;
+    }
+
+    /** addEventListener, removed automatically when the lifetime ends */
+    public listen<K extends keyof WindowEventMap>(target: Window, type: K, listener: (e: WindowEventMap[K]) => void, options?: AddEventListenerOptions): void;
+    public listen<K extends keyof DocumentEventMap>(target: Document, type: K, listener: (e: DocumentEventMap[K]) => void, options?: AddEventListenerOptions): void;
+    public listen<K extends keyof HTMLElementEventMap>(target: HTMLElement, type: K, listener: (e: HTMLElementEventMap[K]) => void, options?: AddEventListenerOptions): void;
+    public listen(target: EventTarget, type: string, listener: (e: Event) => void, options?: AddEventListenerOptions): void;
+    public listen(target: EventTarget, type: string, listener: (e: Event) => void, options: AddEventListenerOptions = {}) {
+        if (this.destroyed) return;
+        target.addEventListener(type, listener, { ...options, signal: this.controller.signal });
+        this.listenerCount++;
+        liveBindings++;
+    }
+
+    /** Run `cleanup` when the lifetime ends — ticker removers, unsubscribes, disposers */
+    public add(cleanup: Cleanup): void {
+        if (this.destroyed) {
+            cleanup();
+            return;
+        }
+        this.cleanups.push(cleanup);
+        liveBindings++;
+    }
+
+    /** setTimeout that is cleared if the lifetime ends first */
+    public timeout(callback: () => void, ms: number): void {
+        const cancel = () => clearTimeout(id);
+        const id = window.setTimeout(() => {
+            this.forget(cancel);
+            callback();
+        }, ms);
+        this.add(cancel);
+    }
+
+    /** A nested lifetime that ends with this one, or earlier on its own */
+    public child(): Lifetime {
+        const child = new Lifetime();
+        const release = () => child.destroy();
+        this.add(release);
+        child.add(() => this.forget(release));
+        return child;
+    }
+
+    public destroy() {
+        if (this.destroyed) return;
+        this.controller.abort();
+        liveBindings -= this.listenerCount;
+        this.listenerCount = 0;
+
+        // Reverse order, so later registrations can rely on earlier ones
+        const cleanups = this.cleanups.reverse();
+        this.cleanups = [];
+        liveBindings -= cleanups.length;
+        cleanups.forEach((cleanup) => cleanup());
+    }
+
+    private forget(cleanup: Cleanup) {
+        const index = this.cleanups.indexOf(cleanup);
+        if (index === -1) return;
+        this.cleanups.splice(index, 1);
+        liveBindings--;
+    }
+}
@@ -1,57 +1,370 @@
 import './style.css';
 import { PortalScene } from './portal';
 import { WorldScene } from './world';
-import { AudioSystem } from './audio';
+import { AudioSystem, type AudioState } from './audio';
+import { AudioSettings, type VolumeChannel } from './audio-settings';
+import { QualityGovernor, QUALITY_TIERS, type QualityTier } from './quality';
+import { MotionPreference } from './motion';
+import { FallbackPortalScene, FallbackWorldScene, replaceCanvas, supportsWebGL, type RenderMode } from './fallback';
+import { SectionRouter, isSectionId, measureSectionScroll, SECTION_IDS, SECTION_LABELS, type SectionId } from './router';
+import { renderContent } from './content';
+import { siteContent } from './site-content';
+import { ContactService, type ContactField, type ContactSubmission, type FieldErrors } from './contact';
+import { RevealEngine } from './reveal';
+import { ModelViewer } from './model-viewer';
+import { SET_PIECE_IDS, type SetPieceId } from './set-pieces';
+import { theme, THEME_NAMES, type ThemeName } from './theme';
+import { createRandom, parseSeed, randomSeed } from './random';
+import { diffSceneDescription, resolveSceneDescription, type SceneDescription } from './scene-description';
+import sceneOverrides from './scene.json';
+import { ticker } from './ticker';
+import { Lifetime, activeBindings, type Disposable } from './lifecycle';
 import gsap from 'gsap';
 
 // ═══════════════════════════════════════════════════════════
 // GALLANT SOLUTIONS — MAIN ORCHESTRATOR
 // ═══════════════════════════════════════════════════════════
 
-class GallantExperience {
-  private portal: PortalScene | null = null;
-  private world: WorldScene | null = null;
+type Phase = 'portal' | 'entering' | 'world' | 'exiting';
+
+// Keys that step between world sections, and which way
+const SECTION_KEYS: Record<string, number> = {
+  ArrowDown: 1,
+  PageDown: 1,
+  ArrowUp: -1,
+  PageUp: -1,
+};
+
+// Focus inside these keeps the section keys for editing
+const TEXT_ENTRY = 'input, textarea, select, [contenteditable]';
+
+const isActivationKey = (e: KeyboardEvent) => e.key === 'Enter' || e.key === ' ';
+
+class GallantExperience implements Disposable {
+  private portal: PortalScene | FallbackPortalScene | null = null;
+  private world: WorldScene | FallbackWorldScene | null = null;
+  private renderMode: RenderMode = 'webgl';
   private audio: AudioSystem;
-  private currentPhase: 'portal' | 'world' = 'portal';
+  private audioSettings: AudioSettings;
+  private quality: QualityGovernor;
+  private motion: MotionPreference;
+  private router: SectionRouter;
+  private activeSection: SectionId = 'home';
+  private currentPhase: Phase = 'portal';
+  // App-wide bindings, and the per-visit world bindings nested inside them
+  private lifetime: Lifetime = new Lifetime();
+  private worldLifetime: Lifetime | null = null;
+  private watchedCanvases: WeakSet<HTMLCanvasElement> = new WeakSet();
+  private sceneSeed: number;
+  private scenes: SceneDescription;
 
   constructor() {
-    this.audio = new AudioSystem();
+    // Build the data-driven sections before anything queries their cards
+    renderContent(siteContent);
+
+    this.audioSettings = new AudioSettings();
+    this.audio = new AudioSystem(this.audioSettings);
+    this.lifetime.add(() => this.audio.destroy());
+    this.quality = new QualityGovernor();
+    this.motion = new MotionPreference();
+    this.reportRenderMode(supportsWebGL() ? 'webgl' : 'canvas2d', 'detection');
+
+    // ?quality=low|medium|high|ultra pins a tier
+    const forced = new URLSearchParams(window.location.search).get('quality') as QualityTier | null;
+    if (forced && QUALITY_TIERS.includes(forced)) {
+      this.quality.setOverride(forced);
+    }
+
+    this.setupTheme();
+
+    // ?seed=<number|text> makes every scene build identically; otherwise pick one per visit
+    const seed = new URLSearchParams(window.location.search).get('seed');
+    this.sceneSeed = seed ? parseSeed(seed) : randomSeed();
+
+    // src/scene.json tunes the scenes; anything it leaves out keeps its default
+    this.scenes = resolveSceneDescription(sceneOverrides);
+
+    this.router = new SectionRouter((id) => this.handleRoute(id));
+
     this.initPortal();
-    this.setupAudioToggle();
+    this.setupAudioControls();
+    this.setupMotionToggle();
+    this.setupInspector();
+
+    // Deep links skip the portal and land directly on the section
+    if (this.router.initialSection) {
+      this.enterWorld(this.router.initialSection);
+    }
+  }
+
+  /** Live bindings and ticker subscribers; both should settle back after a round trip */
+  get lifecycleStats(): { bindings: number; ticks: number } {
+    return { bindings: activeBindings(), ticks: ticker.size };
+  }
+
+  /** Tear down scenes, listeners and the router */
+  public destroy() {
+    this.lifetime.destroy();
+    this.worldLifetime = null;
+    this.world?.destroy();
+    this.world = null;
+    this.portal?.destroy();
+    this.portal = null;
+    this.router.destroy();
+  }
+
+  // ─── ROUTING ───
+  private handleRoute(id: SectionId) {
+    if (this.currentPhase === 'portal') {
+      this.enterWorld(id);
+    } else {
+      this.scrollToSection(id, 'smooth');
+    }
+  }
+
+  private scrollToSection(id: SectionId, behavior: ScrollBehavior) {
+    const target = document.getElementById(id);
+    const scrollContent = document.getElementById('scroll-content');
+    if (target && scrollContent) {
+      scrollContent.scrollTo({ top: id === 'home' ? 0 : target.offsetTop, behavior });
+    }
+  }
+
+  // ─── QUALITY ───
+  get qualityTier(): QualityTier {
+    return this.quality.tier;
+  }
+
+  /** Pin a quality tier, or pass null to return to adaptive mode */
+  public setQualityOverride(tier: QualityTier | null) {
+    this.quality.setOverride(tier);
+  }
+
+  // ─── SEED ───
+  /** Seed behind the scene layout; reload with ?seed=<value> to see the same scenes again */
+  get seed(): number {
+    return this.sceneSeed;
+  }
+
+  /** The full scene description in use, defaults included; a starting point for scene.json */
+  get sceneDescription(): SceneDescription {
+    return JSON.parse(JSON.stringify(this.scenes));
+  }
+
+  // ─── INSPECTOR ───
+  /** ?debug opens the scene inspector; dev builds only, production never loads it */
+  private setupInspector() {
+    if (!import.meta.env.DEV || !new URLSearchParams(window.location.search).has('debug')) return;
+    import('./inspector').then(({ Inspector }) => {
+      if (this.lifetime.destroyed) return;
+      const inspector = new Inspector(
+        () => this.inspectableScene(),
+        () => diffSceneDescription(this.scenes),
+      );
+      this.lifetime.add(() => inspector.destroy());
+    });
+  }
+
+  /** The WebGL scene on screen, if any; the 2D fallbacks have nothing to inspect */
+  private inspectableScene(): PortalScene | WorldScene | null {
+    const scene = this.currentPhase === 'portal' || this.currentPhase === 'entering' ? this.portal : this.world;
+    return scene instanceof PortalScene || scene instanceof WorldScene ? scene : null;
+  }
+
+  // ─── THEME ───
+  get themeName(): ThemeName | null {
+    return theme.name;
+  }
+
+  /** Switch the page and both scenes to another palette */
+  public setTheme(name: ThemeName): Promise<void> {
+    return theme.set(name, this.motion.reduced ? 0 : undefined);
+  }
+
+  /** ?theme=brand|high-contrast|client picks the palette; otherwise follow prefers-contrast */
+  private setupTheme() {
+    const requested = new URLSearchParams(window.location.search).get('theme') as ThemeName | null;
+    if (requested && THEME_NAMES.includes(requested)) {
+      theme.set(requested, 0);
+      return;
+    }
+
+    const contrast = window.matchMedia('(prefers-contrast: more)');
+    if (contrast.matches) theme.set('high-contrast', 0);
+    this.lifetime.listen(contrast, 'change', () => {
+      this.setTheme(contrast.matches ? 'high-contrast' : 'brand');
+    });
+  }
+
+  // ─── RENDER MODE ───
+  get mode(): RenderMode {
+    return this.renderMode;
+  }
+
+  /** Exposes the active renderer for analytics via data-render-mode and a window event */
+  private reportRenderMode(mode: RenderMode, reason: string) {
+    this.renderMode = mode;
+    document.documentElement.dataset.renderMode = mode;
+    window.dispatchEvent(new CustomEvent('gallant:render-mode', { detail: { mode, reason } }));
+  }
+
+  private createPortalScene(canvas: HTMLCanvasElement): PortalScene | FallbackPortalScene {
+    if (this.renderMode === 'webgl') {
+      try {
+        const scene = new PortalScene(canvas, this.quality, this.motion, this.audio, createRandom(this.sceneSeed), this.scenes.portal);
+        this.watchContext(canvas);
+        return scene;
+      } catch (e) {
+        console.warn('WebGL portal failed, using 2D fallback', e);
+        this.reportRenderMode('canvas2d', 'renderer-error');
+        canvas = replaceCanvas(canvas);
+      }
+    }
+    return new FallbackPortalScene(canvas, this.motion, createRandom(this.sceneSeed));
+  }
+
+  private createWorldScene(canvas: HTMLCanvasElement): WorldScene | FallbackWorldScene {
+    if (this.renderMode === 'webgl') {
+      try {
+        const scene = new WorldScene(canvas, this.quality, this.motion, this.audio, createRandom(this.sceneSeed), this.scenes.world);
+        this.watchContext(canvas);
+        return scene;
+      } catch (e) {
+        console.warn('WebGL world failed, using 2D fallback', e);
+        this.reportRenderMode('canvas2d', 'renderer-error');
+        canvas = replaceCanvas(canvas);
+      }
+    }
+    return new FallbackWorldScene(canvas, this.motion, createRandom(this.sceneSeed));
+  }
+
+  /** Scenes are rebuilt on the same canvas after a round trip, so listen only once per canvas */
+  private watchContext(canvas: HTMLCanvasElement) {
+    if (this.watchedCanvases.has(canvas)) return;
+    this.watchedCanvases.add(canvas);
+    this.lifetime.listen(canvas, 'webglcontextlost', () => this.handleContextLost(), { once: true });
+  }
+
+  /** Swap whichever WebGL scene is live for its 2D counterpart */
+  private handleContextLost() {
+    if (this.renderMode !== 'webgl') return;
+    this.reportRenderMode('canvas2d', 'context-lost');
+
+    if (this.portal instanceof PortalScene) {
+      this.portal.destroy();
+      const canvas = replaceCanvas(document.getElementById('portal-canvas') as HTMLCanvasElement);
+      this.portal = new FallbackPortalScene(canvas, this.motion, createRandom(this.sceneSeed));
+    }
+    if (this.world instanceof WorldScene) {
+      this.world.destroy();
+      const canvas = replaceCanvas(document.getElementById('world-canvas') as HTMLCanvasElement);
+      this.world = new FallbackWorldScene(canvas, this.motion, createRandom(this.sceneSeed));
+    }
   }
 
   // ─── PHASE 1: PORTAL ───
   private initPortal() {
-    const canvas = document.getElementById('portal-canvas') as HTMLCanvasElement;
-    if (!canvas) return;
-
-    this.portal = new PortalScene(canvas);
+    this.initPortalScene();
 
     // Enter button handler
     const enterBtn = document.getElementById('enter-btn');
     if (enterBtn) {
-      enterBtn.addEventListener('click', () => this.enterWorld());
+      this.lifetime.listen(enterBtn, 'click', () => this.enterWorld());
+      this.bindHoverSound(this.lifetime, enterBtn);
+    }
 
-      // Hover sound
-      enterBtn.addEventListener('mouseenter', () => {
-        this.audio.playHoverBlip();
+    // The skip link goes straight to the top of the world with the short crossfade
+    const skipLink = document.getElementById('skip-intro');
+    if (skipLink) {
+      this.lifetime.listen(skipLink, 'click', (e) => {
+        e.preventDefault();
+        this.enterWorld('home');
       });
     }
+
+    // Enter or Space anywhere on the portal passes it; focused controls keep their own keys
+    this.lifetime.listen(document, 'keydown', (e) => {
+      if (this.currentPhase !== 'portal' || !isActivationKey(e) || e.repeat) return;
+      const target = e.target as HTMLElement;
+      if (target !== document.body && target.id !== 'portal-container') return;
+      e.preventDefault();
+      this.enterWorld();
+    });
+  }
+
+  /** The hover blip, also played when the keyboard moves focus onto `element` */
+  private bindHoverSound(lifetime: Lifetime, element: HTMLElement) {
+    lifetime.listen(element, 'mouseenter', () => this.audio.play('hover'));
+    lifetime.listen(element, 'focus', () => {
+      if (element.matches(':focus-visible')) this.audio.play('hover');
+    });
+  }
+
+  private initPortalScene() {
+    const canvas = document.getElementById('portal-canvas') as HTMLCanvasElement;
+    if (!canvas) return;
+    this.portal = this.createPortalScene(canvas);
+    if (this.portal instanceof PortalScene) this.bindHotspots(this.portal);
+  }
+
+  /** One globe hotspot per service: hover shows a label, click enters the world at that card */
+  private bindHotspots(portal: PortalScene) {
+    const hotspots = portal.setHotspots(siteContent.services.map(s => ({ id: s.id, label: `${s.icon} ${s.title}` })));
+    const label = document.getElementById('hotspot-label');
+    const pills = document.querySelectorAll<HTMLElement>('.portal-pill[data-service]');
+    let current: string | null = null;
+
+    hotspots.onHover((hover) => {
+      const id = hover?.id ?? null;
+      if (id !== current) {
+        current = id;
+        if (hover) this.audio.play('hover');
+        pills.forEach(pill => pill.classList.toggle('active', pill.dataset.service === id));
+        if (label) {
+          label.textContent = hover?.label ?? '';
+          label.classList.toggle('visible', !!hover);
+        }
+      }
+      if (hover && label) {
+        label.style.transform = `translate(${hover.x}px, ${hover.y}px)`;
+      }
+    });
+
+    hotspots.onSelect((id) => this.enterWorld(undefined, `service-${id}`));
   }
 
   // ─── ENTER WORLD TRANSITION ───
-  private async enterWorld() {
+  /**
+   * @param landOn section to jump to once the world is visible (deep links)
+   * @param focusId element to bring into view after the full transition (globe hotspots)
+   */
+  private async enterWorld(landOn?: SectionId, focusId?: string) {
     if (this.currentPhase !== 'portal') return;
-    this.currentPhase = 'world';
+    this.currentPhase = 'entering';
 
     const portalContainer = document.getElementById('portal-container')!;
     const worldContainer = document.getElementById('world-container')!;
     const flash = document.getElementById('transition-flash')!;
     const portalUI = document.getElementById('portal-ui')!;
 
+    // Deep links get the short crossfade and no audio (there's no user gesture yet)
+    if (landOn) {
+      await this.crossfadeToWorld(portalContainer, worldContainer, flash);
+      this.revealWorld();
+      this.scrollToSection(landOn, 'instant');
+      this.focusWorld();
+      return;
+    }
+
     // Play transition sound
-    this.audio.playTransitionWhoosh();
-    this.audio.start();
+    this.audio.play('whoosh');
+
+    if (this.motion.reduced) {
+      await this.crossfadeToWorld(portalContainer, worldContainer, flash);
+      this.revealWorld();
+      this.focusWorld(focusId);
+      return;
+    }
 
     // Fade out UI — fast
     gsap.to(portalUI, {
@@ -67,6 +380,7 @@ class GallantExperience {
     }
 
     // Flash effect
+    flash.style.display = '';
     flash.classList.add('active');
 
     // Wait for flash peak — snappier
@@ -92,11 +406,148 @@ class GallantExperience {
     flash.classList.remove('active');
     flash.style.display = 'none';
 
-    // Stop audio after transition if user wants it quiet
-    this.audio.stop();
-
     // Animate in the main website
     this.revealWorld();
+    this.focusWorld(focusId);
+  }
+
+  /** Move keyboard focus into the world: onto a card, scrolled to the middle of the viewport, or else the content */
+  private focusWorld(cardId?: string) {
+    const card = cardId ? document.getElementById(cardId) : null;
+    if (!card) {
+      document.getElementById('scroll-content')?.focus({ preventScroll: true });
+      return;
+    }
+    card.focus({ preventScroll: true });
+    card.scrollIntoView({
+      behavior: this.motion.reduced ? 'instant' : 'smooth',
+      block: 'center',
+    });
+  }
+
+  /** Reduced-motion replacement for the zoom + flash: a plain crossfade */
+  private async crossfadeToWorld(portalContainer: HTMLElement, worldContainer: HTMLElement, flash: HTMLElement) {
+    flash.style.display = 'none';
+
+    worldContainer.style.opacity = '0';
+    worldContainer.style.display = 'block';
+    this.initWorld();
+
+    await Promise.all([
+      gsap.to(portalContainer, { opacity: 0, duration: 0.6, ease: 'none' }),
+      gsap.to(worldContainer, { opacity: 1, duration: 0.6, ease: 'none' }),
+    ]);
+
+    portalContainer.style.display = 'none';
+    portalContainer.style.pointerEvents = 'none';
+    portalContainer.style.zIndex = '-1';
+    if (this.portal) {
+      this.portal.destroy();
+      this.portal = null;
+    }
+  }
+
+  // ─── EXIT WORLD TRANSITION ───
+  /** Leave the world and play the entry in reverse: world fades, flash, globe zooms back out */
+  public async exitWorld() {
+    if (this.currentPhase !== 'world') return;
+    this.currentPhase = 'exiting';
+
+    const portalContainer = document.getElementById('portal-container')!;
+    const worldContainer = document.getElementById('world-container')!;
+    const flash = document.getElementById('transition-flash')!;
+
+    this.router.clear();
+    this.audio.play('whoosh-reverse');
+
+    if (this.motion.reduced) {
+      await this.crossfadeToPortal(portalContainer, worldContainer);
+      this.restorePortal();
+      return;
+    }
+
+    await gsap.to(worldContainer, { opacity: 0, duration: 0.3, ease: 'power2.in' });
+
+    // Restart the flash animation from the top
+    flash.style.display = '';
+    flash.classList.remove('active');
+    void flash.offsetWidth;
+    flash.classList.add('active');
+
+    await new Promise(r => setTimeout(r, 150));
+
+    // Swap scenes under the flash, then pull back out of the globe
+    this.showPortalContainer(portalContainer);
+    this.teardownWorld(worldContainer);
+    this.initPortalScene();
+    const zoomOut = this.portal?.transitionIn();
+
+    await new Promise(r => setTimeout(r, 400));
+    flash.classList.remove('active');
+    flash.style.display = 'none';
+
+    await zoomOut;
+    this.restorePortal();
+  }
+
+  /** Reduced-motion counterpart of exitWorld */
+  private async crossfadeToPortal(portalContainer: HTMLElement, worldContainer: HTMLElement) {
+    this.showPortalContainer(portalContainer);
+    portalContainer.style.opacity = '0';
+    this.initPortalScene();
+
+    await Promise.all([
+      gsap.to(worldContainer, { opacity: 0, duration: 0.6, ease: 'none' }),
+      gsap.to(portalContainer, { opacity: 1, duration: 0.6, ease: 'none' }),
+    ]);
+
+    this.teardownWorld(worldContainer);
+  }
+
+  private showPortalContainer(portalContainer: HTMLElement) {
+    portalContainer.style.display = '';
+    portalContainer.style.opacity = '';
+    portalContainer.style.pointerEvents = '';
+    portalContainer.style.zIndex = '';
+  }
+
+  /** Destroy the world scene and reset the world UI so the next entry starts fresh */
+  private teardownWorld(worldContainer: HTMLElement) {
+    this.worldLifetime?.destroy();
+    this.worldLifetime = null;
+    this.world?.destroy();
+    this.world = null;
+
+    worldContainer.style.display = 'none';
+    worldContainer.style.opacity = '';
+
+    document.getElementById('main-nav')?.classList.remove('visible', 'scrolled');
+    document.querySelectorAll('.home-badge, .title-word, .home-subtitle, .home-stats')
+      .forEach(el => el.classList.remove('visible'));
+
+    const scrollContent = document.getElementById('scroll-content');
+    if (scrollContent) scrollContent.scrollTo({ top: 0, behavior: 'instant' });
+    this.activeSection = 'home';
+    this.markActiveNav('home');
+    const announcer = document.getElementById('section-announcer');
+    if (announcer) announcer.textContent = '';
+    this.audio.setSection('portal');
+  }
+
+  /** Bring back the portal UI */
+  private restorePortal() {
+    const portalUI = document.getElementById('portal-ui');
+    if (portalUI) {
+      // The CSS intro animation holds opacity at its end state; take over from it
+      portalUI.style.animation = 'none';
+      gsap.fromTo(portalUI,
+        { opacity: 0, scale: 0.95 },
+        { opacity: 1, scale: 1, duration: this.motion.reduced ? 0.3 : 0.6, ease: 'power2.out' });
+    }
+
+    // Focus was inside the world, which is hidden now
+    document.getElementById('enter-btn')?.focus({ preventScroll: true });
+    this.currentPhase = 'portal';
   }
 
   // ─── PHASE 2: WORLD ───
@@ -104,17 +555,25 @@ class GallantExperience {
     const canvas = document.getElementById('world-canvas') as HTMLCanvasElement;
     if (!canvas) return;
 
-    this.world = new WorldScene(canvas);
+    this.world = this.createWorldScene(canvas);
+    this.worldLifetime = this.lifetime.child();
+    this.bindWorldUI(this.worldLifetime);
+  }
 
+  /** DOM listeners for the world UI; released by teardownWorld on the way back to the portal */
+  private bindWorldUI(lifetime: Lifetime) {
     // Scroll tracking
     const scrollContent = document.getElementById('scroll-content')!;
-    scrollContent.addEventListener('scroll', () => {
+    lifetime.listen(scrollContent, 'scroll', () => {
       const scrollTop = scrollContent.scrollTop;
-      const scrollHeight = scrollContent.scrollHeight - scrollContent.clientHeight;
-      const progress = scrollTop / scrollHeight;
+      const sectionScroll = measureSectionScroll(scrollContent);
+      this.audio.updateScroll(sectionScroll);
 
       if (this.world) {
-        this.world.updateScroll(progress);
+        this.world.updateScroll(sectionScroll);
+        if (this.world instanceof WorldScene) {
+          this.world.setSetPiece(sectionScroll.section === 'services' ? this.serviceInView(scrollContent) : null);
+        }
       }
 
       // Update nav visibility and style
@@ -130,26 +589,27 @@ class GallantExperience {
 
       // Update active nav link
       this.updateActiveNav(scrollContent);
+    });
 
-      // Trigger section animations
-      this.checkVisibility(scrollContent);
+    // Arrow and Page keys step to the neighbouring section
+    lifetime.listen(scrollContent, 'keydown', (e) => {
+      const step = SECTION_KEYS[e.key];
+      if (!step || e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+      if ((e.target as HTMLElement).closest(TEXT_ENTRY)) return;
+      const next = SECTION_IDS[SECTION_IDS.indexOf(this.activeSection) + step];
+      if (!next) return;
+      e.preventDefault();
+      this.router.navigate(next);
     });
 
-    // Nav link smooth scroll (including footer links)
-    document.querySelectorAll('.nav-link, .footer-links a').forEach(link => {
-      link.addEventListener('click', (e) => {
+    // Nav link smooth scroll (including footer and CTA links) — pushes history
+    document.querySelectorAll<HTMLElement>('.nav-link, .footer-links a, .cta-buttons a').forEach(link => {
+      lifetime.listen(link, 'click', (e) => {
         e.preventDefault();
-        const targetId = (link as HTMLElement).getAttribute('href')?.slice(1);
-        if (targetId) {
-          const target = document.getElementById(targetId);
-          const scrollContent = document.getElementById('scroll-content');
-          if (target && scrollContent) {
-            const targetTop = target.offsetTop;
-            scrollContent.scrollTo({
-              top: targetTop,
-              behavior: 'smooth'
-            });
-          }
+        this.audio.play('click');
+        const targetId = link.getAttribute('href')?.slice(1);
+        if (targetId && isSectionId(targetId)) {
+          this.router.navigate(targetId);
         }
       });
     });
@@ -157,45 +617,55 @@ class GallantExperience {
     // Top right contact link listener
     const navContact = document.getElementById('nav-contact-link');
     if (navContact) {
-      navContact.addEventListener('click', () => {
-        const target = document.getElementById('contact');
-        const scrollContent = document.getElementById('scroll-content');
-        if (target && scrollContent) {
-          scrollContent.scrollTo({ top: target.offsetTop, behavior: 'smooth' });
-        }
+      lifetime.listen(navContact, 'click', () => {
+        this.router.navigate('contact');
       });
     }
 
     // Logo click (Scroll to Home)
     const logo = document.getElementById('nav-logo-btn');
     if (logo) {
-      logo.addEventListener('click', () => {
-        const scrollContent = document.getElementById('scroll-content');
-        if (scrollContent) {
-          scrollContent.scrollTo({ top: 0, behavior: 'smooth' });
-        }
+      lifetime.listen(logo, 'click', () => {
+        this.router.navigate('home');
       });
+      lifetime.listen(logo, 'keydown', (e) => {
+        if (!isActivationKey(e)) return;
+        e.preventDefault();
+        this.router.navigate('home');
+      });
+    }
+
+    // Back to the portal
+    const portalBtn = document.getElementById('nav-portal-btn');
+    if (portalBtn) {
+      lifetime.listen(portalBtn, 'click', () => this.exitWorld());
     }
 
     // Card hover sounds
-    document.querySelectorAll('.service-card, .portfolio-card, .testimonial-card, .team-member').forEach(card => {
-      card.addEventListener('mouseenter', () => {
-        this.audio.playHoverBlip();
-      });
+    document.querySelectorAll<HTMLElement>('.service-card, .portfolio-card, .testimonial-card, .team-member').forEach(card => {
+      this.bindHoverSound(lifetime, card);
     });
 
-    // 3D Mouse-tracking tilt for cards and team members
-    this.setup3DTilt();
+    // Portfolio cards with a model open the 3D viewer
+    this.setupModelViewer(lifetime);
+
+    // 3D tilt for cards and team members, following the mouse or keyboard focus
+    this.setup3DTilt(lifetime);
 
     // Contact form handling
-    this.setupContactForm();
+    this.setupContactForm(lifetime);
   }
 
+  /** Final step of every entry path; the world counts as entered from here */
   private revealWorld() {
+    this.currentPhase = 'world';
+    this.audio.setSection(this.activeSection);
     const scrollContent = document.getElementById('scroll-content')!;
+    const lifetime = this.worldLifetime;
+    if (!lifetime) return;
 
     // Show nav quickly
-    setTimeout(() => {
+    lifetime.timeout(() => {
       const nav = document.getElementById('main-nav');
       if (nav) nav.classList.add('visible');
     }, 200);
@@ -207,169 +677,265 @@ class GallantExperience {
     const stats = scrollContent.querySelector('.home-stats');
 
     // Staggered reveal — faster timings
-    setTimeout(() => {
+    lifetime.timeout(() => {
       badge?.classList.add('visible');
     }, 100);
 
     titleWords.forEach((word, i) => {
-      setTimeout(() => {
+      lifetime.timeout(() => {
         word.classList.add('visible');
       }, 200 + i * 120);
     });
 
-    setTimeout(() => {
+    lifetime.timeout(() => {
       subtitle?.classList.add('visible');
     }, 550);
 
-    setTimeout(() => {
+    lifetime.timeout(() => {
       stats?.classList.add('visible');
-      this.animateCounters();
+      this.animateCounters(lifetime);
     }, 700);
 
     // Set up scroll-triggered animations
-    this.checkVisibility(scrollContent);
-  }
-
-  // ─── SCROLL VISIBILITY OBSERVER ───
-  private checkVisibility(container: HTMLElement) {
-    const rect = container.getBoundingClientRect();
-    const viewportHeight = rect.height;
-
-    // Service cards
-    container.querySelectorAll('.service-card').forEach((card, i) => {
-      const cardRect = card.getBoundingClientRect();
-      const relativeTop = cardRect.top - rect.top;
-      if (relativeTop < viewportHeight * 0.85 && relativeTop > -cardRect.height) {
-        setTimeout(() => {
-          card.classList.add('visible');
-        }, i * 100);
-      }
-    });
-
-    // Timeline items
-    container.querySelectorAll('.timeline-item').forEach((item, i) => {
-      const itemRect = item.getBoundingClientRect();
-      const relativeTop = itemRect.top - rect.top;
-      if (relativeTop < viewportHeight * 0.85) {
-        setTimeout(() => {
-          item.classList.add('visible');
-        }, i * 150);
-      }
-    });
-
-    // Team members
-    container.querySelectorAll('.team-member').forEach((member, i) => {
-      const memberRect = member.getBoundingClientRect();
-      const relativeTop = memberRect.top - rect.top;
-      if (relativeTop < viewportHeight * 0.85) {
-        setTimeout(() => {
-          member.classList.add('visible');
-        }, i * 100);
-      }
-    });
-
-
-    // Portfolio cards
-    container.querySelectorAll('.portfolio-card').forEach((card, i) => {
-      const cardRect = card.getBoundingClientRect();
-      const relativeTop = cardRect.top - rect.top;
-      if (relativeTop < viewportHeight * 0.9 && relativeTop > -cardRect.height) {
-        setTimeout(() => {
-          card.classList.add('visible');
-        }, i * 80);
-      }
-    });
+    const reveal = new RevealEngine(scrollContent);
+    reveal.observe();
+    lifetime.add(() => reveal.destroy());
+  }
 
-    // Testimonial cards
-    container.querySelectorAll('.testimonial-card').forEach((card, i) => {
-      const cardRect = card.getBoundingClientRect();
-      const relativeTop = cardRect.top - rect.top;
-      if (relativeTop < viewportHeight * 0.9 && relativeTop > -cardRect.height) {
-        setTimeout(() => {
-          card.classList.add('visible');
-        }, i * 120);
+  /** The service card closest to the middle of the viewport */
+  private serviceInView(container: HTMLElement): SetPieceId | null {
+    const center = container.clientHeight / 2;
+    let best: SetPieceId | null = null;
+    let bestDist = Infinity;
+    container.querySelectorAll<HTMLElement>('.service-card').forEach(card => {
+      const rect = card.getBoundingClientRect();
+      const dist = Math.abs(rect.top + rect.height / 2 - center);
+      const id = card.dataset.service as SetPieceId;
+      if (dist < bestDist && SET_PIECE_IDS.includes(id)) {
+        bestDist = dist;
+        best = id;
       }
     });
-
-    // CTA section
-    const ctaSection = container.querySelector('.cta-content');
-    if (ctaSection) {
-      const ctaRect = ctaSection.getBoundingClientRect();
-      const relativeTop = ctaRect.top - rect.top;
-      if (relativeTop < viewportHeight * 0.85) {
-        ctaSection.classList.add('visible');
-      }
-    }
+    return best;
   }
 
   private updateActiveNav(container: HTMLElement) {
-    const sections = ['home', 'services', 'portfolio', 'about', 'testimonials', 'cta', 'contact'];
     const scrollTop = container.scrollTop + 200;
 
-    let active = 'home';
-    for (const id of sections) {
+    let active: SectionId = 'home';
+    for (const id of SECTION_IDS) {
       const section = document.getElementById(id);
       if (section && section.offsetTop <= scrollTop) {
         active = id;
       }
     }
 
-    document.querySelectorAll('.nav-link').forEach(link => {
-      link.classList.remove('active');
-      if ((link as HTMLElement).dataset.section === active) {
-        link.classList.add('active');
+    this.markActiveNav(active);
+
+    if (active !== this.activeSection) {
+      this.activeSection = active;
+      this.router.sync(active);
+      this.announceSection(active);
+      this.audio.setSection(active);
+      // Each section rings a whole tone higher than the one before
+      this.audio.play('section-change', { detune: SECTION_IDS.indexOf(active) * 2 });
+    }
+  }
+
+  private markActiveNav(active: SectionId) {
+    document.querySelectorAll<HTMLElement>('.nav-link').forEach(link => {
+      const current = link.dataset.section === active;
+      link.classList.toggle('active', current);
+      if (current) {
+        link.setAttribute('aria-current', 'location');
+      } else {
+        link.removeAttribute('aria-current');
       }
     });
   }
 
-  private animateCounters() {
+  /** Tell screen readers which section scrolled into place */
+  private announceSection(id: SectionId) {
+    const announcer = document.getElementById('section-announcer');
+    if (announcer) announcer.textContent = `${SECTION_LABELS[id]} section`;
+  }
+
+  private animateCounters(lifetime: Lifetime) {
     document.querySelectorAll('.stat-number').forEach(el => {
       const target = parseInt((el as HTMLElement).dataset.target || '0');
-      const duration = 2000;
-      const start = performance.now();
+      if (this.motion.reduced) {
+        el.textContent = target.toString();
+        return;
+      }
 
-      const update = (now: number) => {
-        const elapsed = now - start;
+      const duration = 2;
+      let elapsed = 0;
+
+      const stop = ticker.add((frame) => {
+        elapsed += frame.delta;
         const progress = Math.min(elapsed / duration, 1);
         const eased = 1 - Math.pow(1 - progress, 3);
         el.textContent = Math.round(target * eased).toString();
-        if (progress < 1) requestAnimationFrame(update);
-      };
+        if (progress >= 1) stop();
+      });
+      lifetime.add(stop);
+    });
+  }
+
+  // ─── MODEL VIEWER ───
+  private setupModelViewer(lifetime: Lifetime) {
+    const root = document.getElementById('model-viewer');
+    if (!root) return;
 
-      requestAnimationFrame(update);
+    const viewer = new ModelViewer(root, this.quality, this.motion);
+    lifetime.add(() => viewer.destroy());
+
+    document.querySelectorAll<HTMLElement>('.portfolio-card[data-portfolio]').forEach(card => {
+      const item = siteContent.portfolio.find(p => p.id === card.dataset.portfolio);
+      if (!item) return;
+      lifetime.listen(card, 'click', () => viewer.open(item, card));
+      lifetime.listen(card, 'keydown', (e) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        viewer.open(item, card);
+      });
     });
   }
 
   // ─── CONTACT FORM ───
-  private setupContactForm() {
+  private setupContactForm(lifetime: Lifetime) {
     const form = document.getElementById('contact-form') as HTMLFormElement;
     const success = document.getElementById('form-success');
-    const submitBtn = document.getElementById('contact-submit');
+    const submitBtn = document.getElementById('contact-submit') as HTMLButtonElement | null;
+    const status = document.getElementById('form-status');
+    if (!form) return;
+
+    const contact = ContactService.fromEnv();
+    lifetime.add(() => contact.destroy());
+    const fields: ContactField[] = ['name', 'email', 'subject', 'message'];
+    let startedAt: number | null = null;
+
+    const read = (): ContactSubmission => {
+      const data = new FormData(form);
+      return {
+        name: String(data.get('name') ?? ''),
+        email: String(data.get('email') ?? ''),
+        subject: String(data.get('subject') ?? ''),
+        message: String(data.get('message') ?? ''),
+      };
+    };
+
+    const showFieldErrors = (errors: FieldErrors) => {
+      fields.forEach(field => {
+        const input = document.getElementById(`contact-${field}`);
+        const message = document.getElementById(`contact-${field}-error`);
+        const error = errors[field];
+        input?.closest('.form-group')?.classList.toggle('invalid', !!error);
+        input?.setAttribute('aria-invalid', String(!!error));
+        if (message) message.textContent = error ?? '';
+      });
+      const first = fields.find(field => errors[field]);
+      if (first) document.getElementById(`contact-${first}`)?.focus();
+    };
+
+    // Built from text nodes: error messages can echo whatever the server sent
+    const showStatus = (text: string | null, link?: { href: string; label: string; after: string }) => {
+      if (!status) return;
+      status.replaceChildren(text ?? '');
+      if (text && link) {
+        const anchor = document.createElement('a');
+        anchor.href = link.href;
+        anchor.textContent = link.label;
+        status.append(anchor, link.after);
+      }
+      status.classList.toggle('show', !!text);
+    };
+
+    const showSuccess = (title: string, text: string) => {
+      form.style.display = 'none';
+      const titleEl = document.getElementById('form-success-title');
+      const textEl = document.getElementById('form-success-text');
+      if (titleEl) titleEl.textContent = title;
+      if (textEl) textEl.textContent = text;
+      success?.classList.add('show');
+      this.audio.play('success');
+    };
+
+    const resetButton = () => {
+      if (submitBtn) {
+        submitBtn.textContent = 'SEND MESSAGE';
+        submitBtn.disabled = false;
+      }
+    };
 
-    if (form) {
-      form.addEventListener('submit', (e) => {
-        e.preventDefault();
+    // Time-to-fill is part of the spam check
+    lifetime.listen(form, 'focusin', () => {
+      if (startedAt === null) startedAt = Date.now();
+    });
 
-        // Animate button
-        if (submitBtn) {
-          submitBtn.textContent = 'SENDING...';
-          (submitBtn as HTMLButtonElement).disabled = true;
-        }
+    // Clear a field's error as soon as it's edited
+    lifetime.listen(form, 'input', (e) => {
+      const group = (e.target as HTMLElement).closest('.form-group');
+      if (group?.classList.contains('invalid')) {
+        group.classList.remove('invalid');
+        const message = group.querySelector('.form-error');
+        if (message) message.textContent = '';
+      }
+    });
 
-        // Simulate send (replace with real API)
-        setTimeout(() => {
-          form.style.display = 'none';
-          if (success) {
-            success.classList.add('show');
-          }
-          this.audio.playHoverBlip();
-        }, 1200);
-      });
-    }
+    lifetime.listen(form, 'submit', async (e) => {
+      e.preventDefault();
+      showStatus(null);
+
+      // Animate button
+      if (submitBtn) {
+        submitBtn.textContent = 'SENDING...';
+        submitBtn.disabled = true;
+      }
+
+      const submission = read();
+      const honeypot = String(new FormData(form).get('website') ?? '');
+      const result = await contact.submit(submission, honeypot, startedAt);
+
+      switch (result.status) {
+        case 'sent':
+        case 'spam':
+          showFieldErrors({});
+          showSuccess('Message Sent', "Thank you for reaching out. We'll get back to you within 24 hours.");
+          break;
+        case 'handoff':
+          showFieldErrors({});
+          showSuccess('Almost There', 'Your email app should open with the message filled in. Press send there to finish.');
+          break;
+        case 'queued':
+          showFieldErrors({});
+          showSuccess('Message Saved', "You're offline — we'll send your message automatically as soon as you reconnect.");
+          break;
+        case 'invalid':
+          showFieldErrors(result.errors);
+          resetButton();
+          this.audio.play('error');
+          break;
+        case 'rate-limited':
+          showStatus("You've sent several messages recently. Please wait a few minutes before trying again.");
+          resetButton();
+          this.audio.play('error');
+          break;
+        case 'failed': {
+          const mailto = contact.fallback?.buildHref(submission);
+          const text = `We couldn't send your message (${result.error.message}). Please try again`;
+          if (mailto) showStatus(`${text}, or `, { href: mailto, label: 'email us directly', after: '.' });
+          else showStatus(`${text}.`);
+          resetButton();
+          this.audio.play('error');
+          break;
+        }
+      }
+    });
   }
 
   // ─── 3D TILT EFFECTS ───
-  private setup3DTilt() {
+  private setup3DTilt(lifetime: Lifetime) {
     const tiltElements = document.querySelectorAll('.service-card, .portfolio-card, .testimonial-card, .team-member, .stat-item');
 
     tiltElements.forEach(el => {
@@ -378,7 +944,15 @@ class GallantExperience {
       let currentRotateY = 0;
       let targetRotateX = 0;
       let targetRotateY = 0;
-      let animId: number | null = null;
+      let stopTilt: (() => void) | null = null;
+      let stopReset: (() => void) | null = null;
+
+      // Leaving the world mid-tilt stops the ticks and drops the transform
+      lifetime.add(() => {
+        stopTilt?.();
+        stopReset?.();
+        element.style.transform = '';
+      });
 
       const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
 
@@ -396,36 +970,49 @@ class GallantExperience {
           scale(1.02)
         `;
 
-        if (Math.abs(currentRotateX - targetRotateX) > 0.01 ||
-          Math.abs(currentRotateY - targetRotateY) > 0.01) {
-          animId = requestAnimationFrame(updateTilt);
+        if (Math.abs(currentRotateX - targetRotateX) <= 0.01 &&
+          Math.abs(currentRotateY - targetRotateY) <= 0.01) {
+          stopTilt?.();
+          stopTilt = null;
         }
       };
 
-      element.addEventListener('mousemove', (e: MouseEvent) => {
+      const maxTilt = element.classList.contains('service-card') ? 6 : 8;
+
+      /** Ease towards a tilt given as -1..1 of the maximum on each axis */
+      const tiltTowards = (x: number, y: number) => {
+        targetRotateY = x * maxTilt;
+        targetRotateX = -y * maxTilt;
+
+        stopReset?.();
+        stopReset = null;
+        if (!stopTilt) {
+          stopTilt = ticker.add(updateTilt, { element });
+        }
+      };
+
+      // Keyboard focus leans the card as if the pointer rested on its top-right corner
+      const focusTilt = () => tiltTowards(0.5, -0.5);
+
+      lifetime.listen(element, 'mousemove', (e) => {
+        if (this.motion.reduced) return;
         const rect = element.getBoundingClientRect();
         const centerX = rect.left + rect.width / 2;
         const centerY = rect.top + rect.height / 2;
-        const mouseX = e.clientX - centerX;
-        const mouseY = e.clientY - centerY;
-
-        const maxTilt = element.classList.contains('service-card') ? 6 : 8;
-        targetRotateY = (mouseX / (rect.width / 2)) * maxTilt;
-        targetRotateX = -(mouseY / (rect.height / 2)) * maxTilt;
+        tiltTowards((e.clientX - centerX) / (rect.width / 2), (e.clientY - centerY) / (rect.height / 2));
+      });
 
-        if (!animId) {
-          animId = requestAnimationFrame(updateTilt);
-        }
+      lifetime.listen(element, 'focus', () => {
+        if (this.motion.reduced || !element.matches(':focus-visible')) return;
+        focusTilt();
       });
 
-      element.addEventListener('mouseleave', () => {
+      const release = () => {
         targetRotateX = 0;
         targetRotateY = 0;
 
-        if (animId) {
-          cancelAnimationFrame(animId);
-          animId = null;
-        }
+        stopTilt?.();
+        stopTilt = null;
 
         // Smooth reset
         const resetAnim = () => {
@@ -440,21 +1027,34 @@ class GallantExperience {
             scale(1)
           `;
 
-          if (Math.abs(currentRotateX) > 0.1 || Math.abs(currentRotateY) > 0.1) {
-            requestAnimationFrame(resetAnim);
-          } else {
+          if (Math.abs(currentRotateX) <= 0.1 && Math.abs(currentRotateY) <= 0.1) {
             element.style.transform = '';
+            stopReset?.();
+            stopReset = null;
           }
         };
 
-        requestAnimationFrame(resetAnim);
+        if (!stopReset) {
+          stopReset = ticker.add(resetAnim, { element });
+        }
+      };
+
+      lifetime.listen(element, 'mouseleave', () => {
+        // A card that still has keyboard focus settles back to its focus tilt
+        if (!this.motion.reduced && element.matches(':focus-visible')) {
+          focusTilt();
+        } else {
+          release();
+        }
       });
+      lifetime.listen(element, 'blur', release);
     });
 
     // Parallax depth for section headers on scroll
     const scrollContent = document.getElementById('scroll-content');
     if (scrollContent) {
-      scrollContent.addEventListener('scroll', () => {
+      lifetime.listen(scrollContent, 'scroll', () => {
+        if (this.motion.reduced) return;
         const headers = document.querySelectorAll('.section-header');
         headers.forEach(header => {
           const rect = header.getBoundingClientRect();
@@ -468,18 +1068,80 @@ class GallantExperience {
     }
   }
 
-  // ─── AUDIO TOGGLE ───
-  private setupAudioToggle() {
+  // ─── REDUCED MOTION TOGGLE ───
+  private setupMotionToggle() {
+    const btn = document.getElementById('motion-toggle');
+    const sync = (reduced: boolean) => {
+      btn?.setAttribute('aria-pressed', String(reduced));
+      btn?.classList.toggle('active', reduced);
+
+      // Drop any tilt / parallax transforms that were applied before the switch
+      if (reduced) {
+        document.querySelectorAll<HTMLElement>('.section-header, .service-card, .portfolio-card, .testimonial-card, .team-member, .stat-item')
+          .forEach(el => { el.style.transform = ''; });
+      }
+    };
+
+    sync(this.motion.reduced);
+    this.lifetime.add(this.motion.onChange(sync));
+
+    if (btn) {
+      this.lifetime.listen(btn, 'click', () => {
+        this.motion.toggle();
+      });
+    }
+  }
+
+  // ─── AUDIO CONTROLS ───
+  private setupAudioControls() {
     const btn = document.getElementById('audio-toggle');
+    const syncButton = (state: AudioState) => {
+      if (!btn) return;
+      btn.classList.toggle('playing', state === 'playing');
+      btn.classList.toggle('blocked', state === 'blocked');
+      btn.setAttribute('aria-pressed', String(state !== 'muted'));
+      btn.setAttribute('aria-label', state === 'blocked' ? 'Enable audio' : state === 'muted' ? 'Unmute audio' : 'Mute audio');
+      const icon = btn.querySelector('.audio-icon');
+      if (icon) icon.textContent = state === 'playing' ? '🔊' : state === 'blocked' ? '🔈' : '🔇';
+    };
+
+    syncButton(this.audio.state);
+    this.lifetime.add(this.audio.onChange(syncButton));
+
     if (btn) {
-      btn.addEventListener('click', () => {
+      this.lifetime.listen(btn, 'click', () => {
         this.audio.toggle();
       });
     }
+
+    // Volume sliders (0–100) write straight to the settings and follow them back
+    const sliders = document.querySelectorAll<HTMLInputElement>('#audio-panel input[data-volume]');
+    const syncSliders = () => {
+      sliders.forEach(slider => {
+        const percent = Math.round(this.audioSettings.volume(slider.dataset.volume as VolumeChannel) * 100);
+        slider.value = String(percent);
+        slider.setAttribute('aria-valuetext', `${percent}%`);
+      });
+    };
+
+    syncSliders();
+    this.lifetime.add(this.audioSettings.onChange(syncSliders));
+
+    sliders.forEach(slider => {
+      this.lifetime.listen(slider, 'input', () => {
+        this.audioSettings.setVolume(slider.dataset.volume as VolumeChannel, Number(slider.value) / 100);
+      });
+    });
+  }
+}
+
+declare global {
+  interface Window {
+    gallant?: GallantExperience;
   }
 }
 
 // ─── BOOT ───
 document.addEventListener('DOMContentLoaded', () => {
-  new GallantExperience();
+  window.gallant = new GallantExperience();
 });
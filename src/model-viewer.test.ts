@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { installBrowser, installFrames } from './test-browser';
+import { activeBindings } from './lifecycle';
+import { ticker } from './ticker';
+import { QualityGovernor } from './quality';
+import { MotionPreference } from './motion';
+import { ModelViewer } from './model-viewer';
+import { siteContent } from './site-content';
+import type { PortfolioContent } from './content';
+
+/**
+ * Opens the viewer on the committed sample model, the same way a portfolio
+ * card does, and checks the model loads and closing releases all of it.
+ * Models are fetched from public/, as Vite would serve them.
+ */
+
+// Paths rather than URLs: jsdom's URL isn't the one node:fs accepts
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+function installModelServer() {
+    // Node's Request rejects the site-relative URLs the portfolio uses
+    vi.stubGlobal('Request', class {
+        constructor(public url: string) { }
+    });
+    vi.stubGlobal('fetch', async ({ url }: { url: string }) => {
+        try {
+            const body = readFileSync(join(ROOT_DIR, 'public', url));
+            return new Response(body, { status: 200, headers: { 'Content-Length': String(body.length) } });
+        } catch (e) {
+            return new Response(null, { status: 404, statusText: 'Not Found' });
+        }
+    });
+}
+
+/** The dialog markup from index.html */
+function mountDialog(): HTMLElement {
+    const page = new DOMParser().parseFromString(readFileSync(join(ROOT_DIR, 'index.html'), 'utf8'), 'text/html');
+    const root = document.importNode(page.getElementById('model-viewer')!, true);
+    document.body.append(root);
+    return root;
+}
+
+let root: HTMLElement;
+let frames: ReturnType<typeof installFrames>;
+let viewer: ModelViewer;
+
+beforeEach(() => {
+    installBrowser();
+    installModelServer();
+    frames = installFrames();
+    root = mountDialog();
+    viewer = new ModelViewer(root, new QualityGovernor('high'), new MotionPreference());
+});
+
+afterEach(() => {
+    viewer.destroy();
+    root.remove();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+it('loads the sample model and frees it on close', async () => {
+    const item = siteContent.portfolio.find(p => p.model)!;
+    expect(item.model).toBe('/models/skyline.glb');
+    const bindings = activeBindings();
+    const ticks = ticker.size;
+
+    viewer.open(item);
+    const progress = root.querySelector<HTMLElement>('.model-viewer-progress')!;
+    await vi.waitFor(() => expect(progress.hidden).toBe(true));
+    expect(root.classList.contains('fallback')).toBe(false);
+
+    // Exercise the materials and lights the toolbar swaps in
+    viewer.setViewMode('wireframe');
+    viewer.setLighting('neon');
+    frames.step(3);
+    viewer.setViewMode('shaded');
+    viewer.setLighting('sunset');
+    frames.step(3);
+
+    const renderer = viewer['renderer'];
+    const canvas = root.querySelector('canvas')!;
+    // Towers, roof lights and plinth
+    expect(renderer.info.memory.geometries).toBeGreaterThanOrEqual(3);
+
+    viewer.close();
+
+    expect(root.hidden).toBe(true);
+    expect(canvas.isConnected).toBe(false);
+    expect(renderer.info.memory.geometries).toBe(0);
+    expect(renderer.info.memory.textures).toBe(0);
+    expect(renderer.info.programs?.length ?? 0).toBe(0);
+    expect(activeBindings()).toBe(bindings);
+    expect(ticker.size).toBe(ticks);
+    expect(frames.pending).toBe(0);
+});
+
+it('shows the poster when the model is missing', async () => {
+    const item: PortfolioContent = { ...siteContent.portfolio.find(p => p.model)!, model: '/models/missing.glb' };
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+
+    viewer.open(item);
+    const poster = root.querySelector<HTMLImageElement>('.model-viewer-fallback')!;
+    await vi.waitFor(() => expect(poster.hidden).toBe(false));
+
+    expect(poster.getAttribute('src')).toBe('/models/skyline.png');
+    expect(root.classList.contains('fallback')).toBe(true);
+    expect(root.querySelector('canvas')).toBeNull();
+});
@@ -0,0 +1,485 @@
+import * as THREE from 'three';
+import { GLTFLoader, type GLTF } from 'three/addons/loaders/GLTFLoader.js';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { RoomEnvironment } from 'three/addons/environments/RoomEnvironment.js';
+import type { PortfolioContent } from './content';
+import type { QualityGovernor } from './quality';
+import type { MotionPreference } from './motion';
+import { ticker, TickPriority, type FrameInfo } from './ticker';
+import { Lifetime, type Disposable } from './lifecycle';
+import { theme } from './theme';
+
+/**
+ * Modal 3D viewer for portfolio cards.
+ * Each open gets its own renderer on a fresh canvas and loads the card's
+ * glTF/GLB with progress; closing frees every geometry, material, texture
+ * and the GL context itself. If WebGL or the model fails, the card's poster
+ * image is shown instead.
+ */
+
+export type LightingPreset = 'studio' | 'sunset' | 'neon';
+export type ViewMode = 'shaded' | 'wireframe' | 'matcap';
+
+interface LightingSpec {
+    background: number;
+    /** Strength of the room environment map; 0 leaves it off */
+    environment: number;
+    lights: () => THREE.Light[];
+}
+
+const LIGHTING: Record<LightingPreset, LightingSpec> = {
+    studio: {
+        background: 0x101018,
+        environment: 1,
+        lights: () => {
+            const key = new THREE.DirectionalLight(0xffffff, 1.2);
+            key.position.set(3, 4, 5);
+            return [key];
+        },
+    },
+    sunset: {
+        background: 0x1a0d14,
+        environment: 0.35,
+        lights: () => {
+            const sun = new THREE.DirectionalLight(0xff8a3d, 2.4);
+            sun.position.set(-4, 1.5, 3);
+            return [sun, new THREE.HemisphereLight(0xffb380, 0x2a1030, 0.8)];
+        },
+    },
+    neon: {
+        background: 0x050510,
+        environment: 0,
+        lights: () => {
+            const cyan = new THREE.PointLight(theme.colors.primary, 30, 0, 2);
+            cyan.position.set(3, 2, 2);
+            const pink = new THREE.PointLight(theme.colors.accent, 30, 0, 2);
+            pink.position.set(-3, -1, 2);
+            return [cyan, pink, new THREE.AmbientLight(0x4020a0, 0.4)];
+        },
+    },
+};
+
+// Models are scaled to fit a sphere of this radius
+const FIT_RADIUS = 1;
+const TURNTABLE_SPEED = 1.5;
+
+/** Gradient sphere in the current theme's colours, drawn once per matcap material */
+function createMatcapTexture(): THREE.CanvasTexture {
+    const size = 256;
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createRadialGradient(size * 0.35, size * 0.3, size * 0.05, size / 2, size / 2, size / 2);
+    gradient.addColorStop(0, '#ffffff');
+    gradient.addColorStop(0.35, theme.hex('primary'));
+    gradient.addColorStop(0.75, theme.hex('secondary'));
+    gradient.addColorStop(1, theme.hex('background'));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size, size);
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+}
+
+/** Dispose a material and every texture it references */
+function disposeMaterial(material: THREE.Material) {
+    Object.values(material)
+        .filter((value): value is THREE.Texture => value instanceof THREE.Texture)
+        .forEach(texture => texture.dispose());
+    material.dispose();
+}
+
+function disposeObject(root: THREE.Object3D) {
+    root.traverse((object: THREE.Object3D) => {
+        if (!(object instanceof THREE.Mesh || object instanceof THREE.Line || object instanceof THREE.Points)) return;
+        object.geometry.dispose();
+        const material: THREE.Material | THREE.Material[] = object.material;
+        (Array.isArray(material) ? material : [material]).forEach(disposeMaterial);
+    });
+}
+
+export class ModelViewer implements Disposable {
+    private lifetime: Lifetime = new Lifetime();
+    // Bindings and GPU resources of the model currently open
+    private session: Lifetime | null = null;
+    private returnFocus: HTMLElement | null = null;
+
+    private renderer: THREE.WebGLRenderer | null = null;
+    private scene: THREE.Scene | null = null;
+    private camera: THREE.PerspectiveCamera | null = null;
+    private controls: OrbitControls | null = null;
+    private pmrem: THREE.PMREMGenerator | null = null;
+    // The render target owns the environment texture; disposing only the texture frees nothing
+    private environment: THREE.WebGLRenderTarget | null = null;
+    private lights: THREE.Light[] = [];
+    private model: THREE.Object3D | null = null;
+    // Original materials, swapped back in when leaving wireframe or matcap
+    private originals: Map<THREE.Mesh, THREE.Material | THREE.Material[]> = new Map();
+    private overrides: Map<ViewMode, THREE.Material> = new Map();
+
+    private lighting: LightingPreset = 'studio';
+    private view: ViewMode = 'shaded';
+    private turntable: boolean = true;
+
+    private stage: HTMLElement;
+    private fallback: HTMLImageElement;
+    private progress: HTMLElement;
+    private progressBar: HTMLElement;
+    private progressText: HTMLElement;
+    private error: HTMLElement;
+    private closeButton: HTMLElement;
+
+    constructor(
+        private root: HTMLElement,
+        private quality: QualityGovernor,
+        private motion: MotionPreference,
+    ) {
+        this.stage = root.querySelector('.model-viewer-stage')!;
+        this.fallback = root.querySelector('.model-viewer-fallback')!;
+        this.progress = root.querySelector('.model-viewer-progress')!;
+        this.progressBar = root.querySelector('.model-viewer-progress-bar')!;
+        this.progressText = root.querySelector('.model-viewer-progress-text')!;
+        this.error = root.querySelector('.model-viewer-error')!;
+        this.closeButton = root.querySelector('.model-viewer-close')!;
+
+        root.querySelectorAll<HTMLElement>('[data-close]').forEach((el) => {
+            this.lifetime.listen(el, 'click', () => this.close());
+        });
+        root.querySelectorAll<HTMLElement>('[data-lighting]').forEach((el) => {
+            this.lifetime.listen(el, 'click', () => this.setLighting(el.dataset.lighting as LightingPreset));
+        });
+        root.querySelectorAll<HTMLElement>('[data-view]').forEach((el) => {
+            this.lifetime.listen(el, 'click', () => this.setViewMode(el.dataset.view as ViewMode));
+        });
+        root.querySelectorAll<HTMLElement>('[data-action="turntable"]').forEach((el) => {
+            this.lifetime.listen(el, 'click', () => this.setTurntable(!this.turntable));
+        });
+        root.querySelectorAll<HTMLElement>('[data-action="reset"]').forEach((el) => {
+            this.lifetime.listen(el, 'click', () => this.resetView());
+        });
+
+        this.syncToolbar();
+    }
+
+    get isOpen(): boolean {
+        return this.session !== null;
+    }
+
+    /** Show the dialog and start loading `item.model`; focus returns to `trigger` on close */
+    public open(item: PortfolioContent, trigger?: HTMLElement) {
+        if (!item.model) return;
+        if (this.session) this.endSession();
+
+        const session = this.lifetime.child();
+        this.session = session;
+        this.returnFocus = trigger ?? (document.activeElement as HTMLElement | null);
+
+        this.root.querySelector('.model-viewer-category')!.textContent = item.category;
+        this.root.querySelector('.model-viewer-title')!.textContent = item.title;
+        this.root.hidden = false;
+        this.root.classList.remove('fallback');
+        document.body.classList.add('modal-open');
+        this.error.textContent = '';
+        this.fallback.hidden = true;
+        this.setProgress(0);
+
+        session.listen(document, 'keydown', this.handleKeydown);
+        this.closeButton.focus();
+
+        try {
+            this.createStage(session);
+        } catch (e) {
+            console.warn('Model viewer could not start WebGL, showing poster', e);
+            this.showFallback(item);
+            return;
+        }
+        this.load(item, session);
+    }
+
+    public close() {
+        if (!this.session) return;
+        this.endSession();
+        this.root.hidden = true;
+        document.body.classList.remove('modal-open');
+        this.returnFocus?.focus();
+        this.returnFocus = null;
+    }
+
+    public setLighting(preset: LightingPreset) {
+        if (!(preset in LIGHTING)) return;
+        this.lighting = preset;
+        this.applyLighting();
+        this.syncToolbar();
+    }
+
+    public setViewMode(mode: ViewMode) {
+        this.view = mode;
+        this.applyViewMode();
+        this.syncToolbar();
+    }
+
+    public setTurntable(on: boolean) {
+        this.turntable = on;
+        if (this.controls) this.controls.autoRotate = this.shouldTurn();
+        this.syncToolbar();
+    }
+
+    /** Back to the framing the model opened with */
+    public resetView() {
+        this.controls?.reset();
+    }
+
+    public destroy() {
+        this.close();
+        this.lifetime.destroy();
+    }
+
+    // ─── STAGE ───
+
+    private createStage(session: Lifetime) {
+        const canvas = document.createElement('canvas');
+        canvas.className = 'model-viewer-canvas';
+        this.stage.prepend(canvas);
+
+        const renderer = new THREE.WebGLRenderer({ canvas, antialias: this.quality.settings.antialias, alpha: false });
+        // Registered first so it runs last, after everything that needs the context
+        session.add(() => this.disposeStage(canvas));
+        renderer.setPixelRatio(this.quality.pixelRatio);
+        renderer.toneMapping = THREE.ACESFilmicToneMapping;
+        this.renderer = renderer;
+
+        this.scene = new THREE.Scene();
+        this.camera = new THREE.PerspectiveCamera(40, 1, 0.01, 100);
+        this.camera.position.set(0, 0.6, 3.2);
+
+        const controls = new OrbitControls(this.camera, canvas);
+        controls.enableDamping = true;
+        controls.dampingFactor = 0.08;
+        controls.autoRotateSpeed = TURNTABLE_SPEED;
+        controls.autoRotate = this.shouldTurn();
+        controls.minDistance = FIT_RADIUS * 1.2;
+        controls.maxDistance = FIT_RADIUS * 8;
+        this.controls = controls;
+
+        this.pmrem = new THREE.PMREMGenerator(renderer);
+        this.applyLighting();
+
+        this.resize();
+        session.listen(window, 'resize', this.resize);
+        session.add(this.motion.onChange(() => {
+            controls.autoRotate = this.shouldTurn();
+        }));
+        session.add(ticker.add(this.renderFrame, { priority: TickPriority.RENDER, element: canvas }));
+    }
+
+    private load(item: PortfolioContent, session: Lifetime) {
+        // A manager per open, so closing mid-download cancels the request
+        const manager = new THREE.LoadingManager();
+        session.add(() => manager.abort());
+
+        new GLTFLoader(manager).load(
+            item.model!,
+            (gltf: GLTF) => {
+                if (session.destroyed) {
+                    disposeObject(gltf.scene);
+                    return;
+                }
+                this.setModel(gltf.scene);
+                this.progress.hidden = true;
+            },
+            (e: ProgressEvent) => {
+                if (session.destroyed) return;
+                this.setProgress(e.lengthComputable ? e.loaded / e.total : null);
+            },
+            (e: unknown) => {
+                if (session.destroyed) return;
+                console.warn(`Model viewer could not load ${item.model}, showing poster`, e);
+                this.showFallback(item);
+            },
+        );
+    }
+
+    /** Centre the model, scale it to FIT_RADIUS and frame the camera on it */
+    private setModel(model: THREE.Object3D) {
+        const { scene, camera, controls } = this;
+        if (!scene || !camera || !controls) return;
+
+        const sphere = new THREE.Box3().setFromObject(model).getBoundingSphere(new THREE.Sphere());
+        const scale = sphere.radius > 0 ? FIT_RADIUS / sphere.radius : 1;
+        model.scale.multiplyScalar(scale);
+        model.position.sub(sphere.center.multiplyScalar(scale));
+        scene.add(model);
+        this.model = model;
+
+        model.traverse((object: THREE.Object3D) => {
+            if (object instanceof THREE.Mesh) this.originals.set(object, object.material);
+        });
+        this.applyViewMode();
+
+        const distance = FIT_RADIUS / Math.sin(THREE.MathUtils.degToRad(camera.fov / 2)) * 1.15;
+        camera.position.set(0, distance * 0.25, distance);
+        controls.target.set(0, 0, 0);
+        controls.update();
+        controls.saveState();
+    }
+
+    private applyLighting() {
+        const { scene, pmrem } = this;
+        if (!scene || !pmrem) return;
+        const spec = LIGHTING[this.lighting];
+
+        this.lights.forEach((light) => {
+            scene.remove(light);
+            light.dispose();
+        });
+        this.lights = spec.lights();
+        this.lights.forEach((light) => scene.add(light));
+
+        // The room environment is baked once per open and reused across presets
+        if (spec.environment > 0 && !this.environment) {
+            const room = new RoomEnvironment();
+            this.environment = pmrem.fromScene(room, 0.04);
+            room.dispose();
+        }
+        scene.environment = spec.environment > 0 ? this.environment!.texture : null;
+        scene.environmentIntensity = spec.environment;
+        scene.background = new THREE.Color(spec.background);
+    }
+
+    private applyViewMode() {
+        const override = this.view === 'shaded' ? null : this.overrideMaterial(this.view);
+        this.originals.forEach((material, mesh) => {
+            mesh.material = override ?? material;
+        });
+    }
+
+    private overrideMaterial(mode: ViewMode): THREE.Material {
+        let material = this.overrides.get(mode);
+        if (!material) {
+            material = mode === 'wireframe'
+                ? new THREE.MeshBasicMaterial({ color: theme.colors.primary, wireframe: true, transparent: true, opacity: 0.7 })
+                : new THREE.MeshMatcapMaterial({ matcap: createMatcapTexture() });
+            this.overrides.set(mode, material);
+        }
+        return material;
+    }
+
+    private renderFrame = (frame: FrameInfo) => {
+        if (!this.renderer || !this.scene || !this.camera || !this.controls) return;
+        this.controls.update(frame.delta);
+        this.renderer.render(this.scene, this.camera);
+    };
+
+    private resize = () => {
+        if (!this.renderer || !this.camera) return;
+        const width = this.stage.clientWidth || 1;
+        const height = this.stage.clientHeight || 1;
+        this.renderer.setSize(width, height, false);
+        this.camera.aspect = width / height;
+        this.camera.updateProjectionMatrix();
+    };
+
+    /** Release everything the open model put on the GPU, including the context */
+    private disposeStage(canvas: HTMLCanvasElement) {
+        this.controls?.dispose();
+        // Put the originals back first, so the traversal reaches the ones an override hid
+        this.originals.forEach((material, mesh) => {
+            mesh.material = material;
+        });
+        this.originals.clear();
+        if (this.model) disposeObject(this.model);
+        this.overrides.forEach(disposeMaterial);
+        this.overrides.clear();
+        this.lights.forEach((light) => light.dispose());
+        this.lights = [];
+        this.environment?.dispose();
+        this.pmrem?.dispose();
+        this.renderer?.dispose();
+        this.renderer?.forceContextLoss();
+        canvas.remove();
+
+        this.renderer = null;
+        this.scene = null;
+        this.camera = null;
+        this.controls = null;
+        this.pmrem = null;
+        this.environment = null;
+        this.model = null;
+    }
+
+    private endSession() {
+        this.session?.destroy();
+        this.session = null;
+    }
+
+    // ─── UI ───
+
+    /** Swap the stage for the poster; without one, the card icon and an error */
+    private showFallback(item: PortfolioContent) {
+        // The stage holds GPU resources that are no use any more
+        if (this.renderer) this.disposeStage(this.renderer.domElement);
+        this.progress.hidden = true;
+        this.root.classList.add('fallback');
+
+        const showError = () => {
+            this.fallback.hidden = true;
+            this.error.textContent = `${item.icon} The 3D preview isn't available right now.`;
+        };
+        if (!item.poster) {
+            showError();
+            return;
+        }
+        this.fallback.onerror = showError;
+        this.fallback.alt = item.title;
+        this.fallback.src = item.poster;
+        this.fallback.hidden = false;
+    }
+
+    /** `null` when the download size is unknown */
+    private setProgress(fraction: number | null) {
+        this.progress.hidden = false;
+        this.progress.classList.toggle('indeterminate', fraction === null);
+        const percent = Math.round((fraction ?? 0) * 100);
+        this.progressBar.style.transform = `scaleX(${fraction ?? 1})`;
+        this.progressText.textContent = fraction === null ? 'Loading…' : `${percent}%`;
+    }
+
+    private syncToolbar() {
+        this.root.querySelectorAll<HTMLElement>('[data-lighting]').forEach((el) => {
+            el.setAttribute('aria-pressed', String(el.dataset.lighting === this.lighting));
+        });
+        this.root.querySelectorAll<HTMLElement>('[data-view]').forEach((el) => {
+            el.setAttribute('aria-pressed', String(el.dataset.view === this.view));
+        });
+        this.root.querySelectorAll<HTMLElement>('[data-action="turntable"]').forEach((el) => {
+            el.setAttribute('aria-pressed', String(this.turntable));
+        });
+    }
+
+    private shouldTurn(): boolean {
+        return this.turntable && !this.motion.reduced;
+    }
+
+    private handleKeydown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            this.close();
+            return;
+        }
+        if (e.key !== 'Tab') return;
+
+        // Keep focus inside the dialog
+        const focusable = Array.from(this.root.querySelectorAll<HTMLElement>('button, [href], [tabindex]:not([tabindex="-1"])'))
+            .filter((el) => !el.hidden && el.offsetParent !== null);
+        if (focusable.length === 0) return;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+            e.preventDefault();
+            first.focus();
+        }
+    };
+}
@@ -0,0 +1,70 @@
+/**
+ * Reduced-motion preference.
+ * Follows the OS-level `prefers-reduced-motion` media query unless the user
+ * has flipped the on-page switch, in which case their choice is remembered.
+ */
+
+const STORAGE_KEY = 'gallant:reduced-motion';
+
+/** Time scale applied to ambient scene motion when reduced motion is on */
+export const REDUCED_MOTION_SCALE = 0.15;
+
+type MotionListener = (reduced: boolean) => void;
+
+export class MotionPreference {
+    private query: MediaQueryList;
+    private userChoice: boolean | null = null;
+    private listeners: Set<MotionListener> = new Set();
+
+    constructor() {
+        this.query = window.matchMedia('(prefers-reduced-motion: reduce)');
+        this.query.addEventListener('change', () => {
+            if (this.userChoice === null) this.emit();
+        });
+
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored !== null) this.userChoice = stored === '1';
+        } catch (e) { }
+
+        this.applyRootClass();
+    }
+
+    get reduced(): boolean {
+        return this.userChoice ?? this.query.matches;
+    }
+
+    /** Multiplier for ambient animation speed (1 = full motion) */
+    get scale(): number {
+        return this.reduced ? REDUCED_MOTION_SCALE : 1;
+    }
+
+    /** Force reduced motion on or off; null follows the media query again */
+    public set(reduced: boolean | null) {
+        const before = this.reduced;
+        this.userChoice = reduced;
+        try {
+            if (reduced === null) localStorage.removeItem(STORAGE_KEY);
+            else localStorage.setItem(STORAGE_KEY, reduced ? '1' : '0');
+        } catch (e) { }
+        if (this.reduced !== before) this.emit();
+    }
+
+    public toggle() {
+        this.set(!this.reduced);
+    }
+
+    public onChange(listener: MotionListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private applyRootClass() {
+        document.documentElement.classList.toggle('reduced-motion', this.reduced);
+    }
+
+    private emit() {
+        this.applyRootClass();
+        this.listeners.forEach(l => l(this.reduced));
+    }
+}
@@ -1,18 +1,45 @@
 import * as THREE from 'three';
-
-export class PortalScene {
+import type { QualityGovernor, QualitySettings } from './quality';
+import type { MotionPreference } from './motion';
+import { ticker, TickPriority, type FrameInfo } from './ticker';
+import { Lifetime, type Disposable } from './lifecycle';
+import { PostPipeline, type EffectParams } from './post-fx';
+import { GlobeHotspots, type Hotspot } from './hotspots';
+import { SILENT_BANDS, type AudioBandSource } from './audio';
+import { theme, themed, applyTheme, sceneColor } from './theme';
+import { between, pickWeighted, type Random } from './random';
+import { DEFAULT_SCENE, type PortalSceneDescription } from './scene-description';
+import type { InspectorTarget } from './inspector';
+
+const RING_OPACITY = 0.25;
+
+// Resting post-processing look; transitions push bloom and radial blur from here
+const PORTAL_EFFECTS = {
+    bloomStrength: 0.9,
+    bloomRadius: 0.5,
+    bloomThreshold: 0.15,
+    aberration: 0.0025,
+    vignette: 0.55,
+    grain: 0.35,
+} satisfies Partial<EffectParams>;
+
+export class PortalScene implements Disposable {
     private scene: THREE.Scene;
     private camera: THREE.PerspectiveCamera;
     private renderer: THREE.WebGLRenderer;
+    private post: PostPipeline;
     private globe: THREE.Mesh;
     private globeCore: THREE.Mesh;
     private rings: THREE.Group;
     private particles: THREE.Points;
     private cursorParticles: THREE.Points;
+    private ambientLight: THREE.AmbientLight;
+    private hotspots: GlobeHotspots | null = null;
     private mouse: THREE.Vector2 = new THREE.Vector2();
     private targetMouse: THREE.Vector2 = new THREE.Vector2();
-    private clock: THREE.Clock = new THREE.Clock();
-    private animationId: number = 0;
+    // Scene time advances at motion.scale, so reduced motion slows ambient drift
+    private time: number = 0;
+    private lifetime: Lifetime = new Lifetime();
     private isDestroyed: boolean = false;
     private isTransitioning: boolean = false;
 
@@ -21,20 +48,31 @@ export class PortalScene {
     private coreMaterial!: THREE.ShaderMaterial;
     private particleMaterial!: THREE.ShaderMaterial;
 
-    constructor(private canvas: HTMLCanvasElement) {
+    constructor(
+        private canvas: HTMLCanvasElement,
+        private quality: QualityGovernor,
+        private motion: MotionPreference,
+        private audio: AudioBandSource | null = null,
+        /** Source for every random placement; pass a seeded one for repeatable scenes */
+        private random: Random = Math.random,
+        /** Rings, particles and lighting; see scene-description.ts */
+        private description: PortalSceneDescription = structuredClone(DEFAULT_SCENE.portal),
+    ) {
         this.scene = new THREE.Scene();
         this.camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 1000);
         this.camera.position.set(0, 0, 5);
 
         this.renderer = new THREE.WebGLRenderer({
             canvas: this.canvas,
-            antialias: true,
+            // Antialiasing is done by the post pipeline, so it can follow the tier
+            antialias: false,
             alpha: true,
         });
         this.renderer.setSize(window.innerWidth, window.innerHeight);
-        this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        this.renderer.setPixelRatio(this.quality.pixelRatio);
         this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
-        this.renderer.toneMappingExposure = 1.0;
+        this.renderer.toneMappingExposure = this.description.exposure;
+        this.post = new PostPipeline(this.renderer, this.scene, this.camera, this.quality.settings.effects, PORTAL_EFFECTS);
 
         this.globe = new THREE.Mesh();
         this.globeCore = new THREE.Mesh();
@@ -44,16 +82,24 @@ export class PortalScene {
 
         this.init();
         this.setupEvents();
+        this.applyQuality(this.quality.settings);
+        this.lifetime.add(this.quality.onChange((settings) => this.applyQuality(settings)));
     }
 
     private init() {
+        const { rings: ringSpecs, particles: particleSpec, cursorParticles: cursorSpec, ambient } = this.description;
+        const range = (r: [number, number]) => between(this.random, r[0], r[1]);
+
         // ─── GLOBE (outer shell) ───
         const globeGeo = new THREE.SphereGeometry(1.2, 64, 64);
         this.globeMaterial = new THREE.ShaderMaterial({
             uniforms: {
                 time: { value: 0 },
                 mouseInfluence: { value: new THREE.Vector2(0, 0) },
-                glowIntensity: { value: 0.5 },
+                glowIntensity: { value: this.description.glow },
+                primary: { value: theme.colors.primary },
+                secondary: { value: theme.colors.secondary },
+                accent: { value: theme.colors.accent },
             },
             vertexShader: `
         varying vec3 vNormal;
@@ -85,21 +131,19 @@ export class PortalScene {
         varying vec2 vUv;
         uniform float time;
         uniform float glowIntensity;
+        uniform vec3 primary;
+        uniform vec3 secondary;
+        uniform vec3 accent;
         
         void main() {
           // Fresnel effect for glass-like edges
           float fresnel = pow(1.0 - abs(dot(vNormal, vec3(0.0, 0.0, 1.0))), 3.0);
           
-          // Neon blue base with purple accents
-          vec3 baseColor = vec3(0.0, 0.83, 1.0); // neon blue
-          vec3 accentColor = vec3(0.66, 0.33, 0.97); // electric purple
-          vec3 pinkAccent = vec3(1.0, 0.18, 0.47); // cyber pink
-          
-          // Animated color mixing
+          // Animated color mixing: primary base with secondary and accent streaks
           float colorMix = sin(vUv.x * 6.28 + time * 0.5) * 0.5 + 0.5;
           float pinkMix = sin(vUv.y * 12.56 + time * 0.7) * 0.5 + 0.5;
-          vec3 color = mix(baseColor, accentColor, colorMix * 0.4);
-          color = mix(color, pinkAccent, pinkMix * 0.1);
+          vec3 color = mix(primary, secondary, colorMix * 0.4);
+          color = mix(color, accent, pinkMix * 0.1);
           
           // Energy lines
           float lines = sin(vUv.y * 40.0 + time * 2.0) * 0.5 + 0.5;
@@ -115,6 +159,8 @@ export class PortalScene {
           color = color * (fresnel + lineGlow) * glowIntensity;
           
           gl_FragColor = vec4(color, alpha * 0.8);
+          #include <tonemapping_fragment>
+          #include <colorspace_fragment>
         }
       `,
             transparent: true,
@@ -131,7 +177,10 @@ export class PortalScene {
         this.coreMaterial = new THREE.ShaderMaterial({
             uniforms: {
                 time: { value: 0 },
-                intensity: { value: 1.0 },
+                intensity: { value: this.description.coreIntensity },
+                audioPulse: { value: 0 },
+                primary: { value: theme.colors.primary },
+                secondary: { value: theme.colors.secondary },
             },
             vertexShader: `
         varying vec3 vNormal;
@@ -147,22 +196,28 @@ export class PortalScene {
         varying vec2 vUv;
         uniform float time;
         uniform float intensity;
+        uniform float audioPulse;
+        uniform vec3 primary;
+        uniform vec3 secondary;
         
         void main() {
           float fresnel = pow(1.0 - abs(dot(vNormal, vec3(0.0, 0.0, 1.0))), 2.0);
           
-          vec3 coreColor = vec3(0.0, 0.6, 1.0);
-          vec3 pulseColor = vec3(0.5, 0.2, 0.9);
+          // Slightly deeper than the shell so the core reads as inside it
+          vec3 coreColor = primary * vec3(0.85, 0.72, 1.0);
+          vec3 pulseColor = secondary * 0.85;
           
           float pulse = sin(time * 1.5) * 0.5 + 0.5;
-          vec3 color = mix(coreColor, pulseColor, pulse * 0.3);
+          vec3 color = mix(coreColor, pulseColor, min(pulse * 0.3 + audioPulse * 0.4, 1.0));
           
           // Inner glow
-          float glow = 0.4 + pulse * 0.3;
+          float glow = 0.4 + pulse * 0.3 + audioPulse * 0.5;
           color *= glow * intensity;
           
           float alpha = (0.3 + fresnel * 0.5) * intensity;
           gl_FragColor = vec4(color, alpha);
+          #include <tonemapping_fragment>
+          #include <colorspace_fragment>
         }
       `,
             transparent: true,
@@ -175,36 +230,27 @@ export class PortalScene {
 
         // ─── ORBITING DATA RINGS ───
         this.rings = new THREE.Group();
-        const ringConfigs = [
-            { radius: 1.8, tilt: 0.4, speed: 0.3, color: 0x00d4ff },
-            { radius: 2.1, tilt: -0.6, speed: -0.2, color: 0xa855f7 },
-            { radius: 2.4, tilt: 0.2, speed: 0.15, color: 0xff2d78 },
-        ];
-
-        ringConfigs.forEach((config) => {
+        ringSpecs.forEach((config) => {
             const ringGeo = new THREE.TorusGeometry(config.radius, 0.008, 8, 200);
-            const ringMat = new THREE.MeshBasicMaterial({
-                color: config.color,
+            const ringMat = themed(new THREE.MeshBasicMaterial({
                 transparent: true,
-                opacity: 0.25,
+                opacity: RING_OPACITY,
                 blending: THREE.AdditiveBlending,
-            });
+            }), config.color);
             const ring = new THREE.Mesh(ringGeo, ringMat);
             ring.rotation.x = config.tilt;
             ring.userData = { speed: config.speed, baseTilt: config.tilt };
             this.rings.add(ring);
 
             // Add data dots on ring
-            const dotCount = 20;
-            for (let i = 0; i < dotCount; i++) {
-                const angle = (i / dotCount) * Math.PI * 2;
+            for (let i = 0; i < config.dots; i++) {
+                const angle = (i / config.dots) * Math.PI * 2;
                 const dotGeo = new THREE.SphereGeometry(0.02, 8, 8);
-                const dotMat = new THREE.MeshBasicMaterial({
-                    color: config.color,
+                const dotMat = themed(new THREE.MeshBasicMaterial({
                     transparent: true,
                     opacity: 0.4,
                     blending: THREE.AdditiveBlending,
-                });
+                }), config.color);
                 const dot = new THREE.Mesh(dotGeo, dotMat);
                 dot.position.x = Math.cos(angle) * config.radius;
                 dot.position.z = Math.sin(angle) * config.radius;
@@ -215,54 +261,48 @@ export class PortalScene {
         this.scene.add(this.rings);
 
         // ─── COSMIC PARTICLES ───
-        const particleCount = 1200;
+        const particleCount = particleSpec.count;
         const positions = new Float32Array(particleCount * 3);
         const sizes = new Float32Array(particleCount);
-        const colors = new Float32Array(particleCount * 3);
+        // Index into the palette uniform, one entry per description colour
+        const tones = new Float32Array(particleCount);
 
         for (let i = 0; i < particleCount; i++) {
             const i3 = i * 3;
             // Spread particles in a wide sphere
-            const theta = Math.random() * Math.PI * 2;
-            const phi = Math.acos(2 * Math.random() - 1);
-            const r = 4 + Math.random() * 18;
+            const theta = this.random() * Math.PI * 2;
+            const phi = Math.acos(2 * this.random() - 1);
+            const r = range(particleSpec.radius);
 
             positions[i3] = r * Math.sin(phi) * Math.cos(theta);
             positions[i3 + 1] = r * Math.sin(phi) * Math.sin(theta);
             positions[i3 + 2] = r * Math.cos(phi);
 
-            sizes[i] = Math.random() * 1.5 + 0.3;
-
-            // Color: mix of blue, purple, pink
-            const colorChoice = Math.random();
-            if (colorChoice < 0.5) {
-                colors[i3] = 0; colors[i3 + 1] = 0.83; colors[i3 + 2] = 1;
-            } else if (colorChoice < 0.8) {
-                colors[i3] = 0.66; colors[i3 + 1] = 0.33; colors[i3 + 2] = 0.97;
-            } else {
-                colors[i3] = 1; colors[i3 + 1] = 0.18; colors[i3 + 2] = 0.47;
-            }
+            sizes[i] = range(particleSpec.size);
+            tones[i] = pickWeighted(this.random, particleSpec.colors.map(c => c.weight));
         }
 
         const particleGeo = new THREE.BufferGeometry();
         particleGeo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
         particleGeo.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
-        particleGeo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+        particleGeo.setAttribute('tone', new THREE.BufferAttribute(tones, 1));
 
         this.particleMaterial = new THREE.ShaderMaterial({
             uniforms: {
                 time: { value: 0 },
-                pixelRatio: { value: Math.min(window.devicePixelRatio, 2) },
+                pixelRatio: { value: this.quality.pixelRatio },
+                palette: { value: particleSpec.colors.map(c => sceneColor(c.color)) },
             },
             vertexShader: `
         attribute float size;
-        attribute vec3 color;
+        attribute float tone;
         varying vec3 vColor;
         uniform float time;
         uniform float pixelRatio;
+        uniform vec3 palette[${particleSpec.colors.length}];
         
         void main() {
-          vColor = color;
+          vColor = palette[int(tone + 0.5)];
           vec3 pos = position;
           
           // Gentle floating
@@ -283,6 +323,8 @@ export class PortalScene {
           float alpha = 1.0 - smoothstep(0.0, 0.5, d);
           alpha *= 0.4;
           gl_FragColor = vec4(vColor, alpha);
+          #include <tonemapping_fragment>
+          #include <colorspace_fragment>
         }
       `,
             transparent: true,
@@ -294,15 +336,16 @@ export class PortalScene {
         this.scene.add(this.particles);
 
         // ─── CURSOR-FOLLOWING PARTICLES ───
-        const cursorParticleCount = 30;
+        const cursorParticleCount = cursorSpec.count;
         const cursorPositions = new Float32Array(cursorParticleCount * 3);
         const cursorSizes = new Float32Array(cursorParticleCount);
 
         for (let i = 0; i < cursorParticleCount; i++) {
-            cursorPositions[i * 3] = (Math.random() - 0.5) * 0.4;
-            cursorPositions[i * 3 + 1] = (Math.random() - 0.5) * 0.4;
-            cursorPositions[i * 3 + 2] = (Math.random() - 0.5) * 0.4;
-            cursorSizes[i] = Math.random() * 1.2 + 0.5;
+            const spread = cursorSpec.spread / 2;
+            cursorPositions[i * 3] = between(this.random, -spread, spread);
+            cursorPositions[i * 3 + 1] = between(this.random, -spread, spread);
+            cursorPositions[i * 3 + 2] = between(this.random, -spread, spread);
+            cursorSizes[i] = range(cursorSpec.size);
         }
 
         const cursorGeo = new THREE.BufferGeometry();
@@ -313,7 +356,8 @@ export class PortalScene {
             uniforms: {
                 time: { value: 0 },
                 mousePos: { value: new THREE.Vector3() },
-                pixelRatio: { value: Math.min(window.devicePixelRatio, 2) },
+                pixelRatio: { value: this.quality.pixelRatio },
+                color: { value: theme.colors.primary },
             },
             vertexShader: `
         attribute float size;
@@ -332,12 +376,16 @@ export class PortalScene {
         }
       `,
             fragmentShader: `
+        uniform vec3 color;
+        
         void main() {
           float d = length(gl_PointCoord - vec2(0.5));
           if (d > 0.5) discard;
           float alpha = 1.0 - smoothstep(0.0, 0.5, d);
           alpha *= 0.25;
-          gl_FragColor = vec4(0.0, 0.83, 1.0, alpha);
+          gl_FragColor = vec4(color, alpha);
+          #include <tonemapping_fragment>
+          #include <colorspace_fragment>
         }
       `,
             transparent: true,
@@ -349,45 +397,78 @@ export class PortalScene {
         this.scene.add(this.cursorParticles);
 
         // ─── AMBIENT LIGHT ───
-        const ambientLight = new THREE.AmbientLight(0x001133, 0.5);
-        this.scene.add(ambientLight);
+        this.ambientLight = themed(new THREE.AmbientLight(undefined, ambient.intensity), ambient.color);
+        this.scene.add(this.ambientLight);
+
+        // Shader uniforms share the theme's colours; materials and lights need copying
+        this.lifetime.add(theme.onChange(() => applyTheme(this.scene)));
 
         // Start animation
-        this.animate();
+        this.lifetime.add(ticker.add(this.animate, { priority: TickPriority.RENDER, element: this.canvas }));
 
         // Hide loading after a short delay
-        setTimeout(() => {
+        this.lifetime.timeout(() => {
             const loader = document.getElementById('loading-overlay');
             if (loader) loader.classList.add('hidden');
         }, 1500);
     }
 
-    private setupEvents() {
-        window.addEventListener('mousemove', (e) => {
-            this.targetMouse.x = (e.clientX / window.innerWidth) * 2 - 1;
-            this.targetMouse.y = -(e.clientY / window.innerHeight) * 2 + 1;
+    /** Scale particle count, ring dots and pixel ratio to the current quality tier */
+    private applyQuality(settings: QualitySettings) {
+        if (this.isDestroyed) return;
+        const pixelRatio = this.quality.pixelRatio;
+        this.renderer.setPixelRatio(pixelRatio);
+        this.post.setPixelRatio(pixelRatio);
+        this.post.setEffects(settings.effects);
+        this.post.setAntialias(settings.antialias);
+        this.particleMaterial.uniforms.pixelRatio.value = pixelRatio;
+        (this.cursorParticles.material as THREE.ShaderMaterial).uniforms.pixelRatio.value = pixelRatio;
+
+        const particleCount = this.particles.geometry.getAttribute('position').count;
+        this.particles.geometry.setDrawRange(0, Math.floor(particleCount * settings.particleScale));
+
+        // Keep visible dots evenly spaced around each ring
+        this.rings.children.forEach((ring) => {
+            const dots = ring.children;
+            const stride = dots.length / Math.min(settings.ringDots, dots.length);
+            dots.forEach((dot, i) => {
+                dot.visible = i % stride < 1;
+            });
         });
+    }
 
-        window.addEventListener('resize', () => {
-            if (this.isDestroyed) return;
-            this.camera.aspect = window.innerWidth / window.innerHeight;
-            this.camera.updateProjectionMatrix();
-            this.renderer.setSize(window.innerWidth, window.innerHeight);
-        });
+    private setupEvents() {
+        this.lifetime.listen(window, 'mousemove', this.handleMouseMove);
+        this.lifetime.listen(window, 'resize', this.handleResize);
     }
 
-    private animate = () => {
+    private handleMouseMove = (e: MouseEvent) => {
+        this.targetMouse.x = (e.clientX / window.innerWidth) * 2 - 1;
+        this.targetMouse.y = -(e.clientY / window.innerHeight) * 2 + 1;
+    };
+
+    private handleResize = () => {
+        if (this.isDestroyed) return;
+        this.camera.aspect = window.innerWidth / window.innerHeight;
+        this.camera.updateProjectionMatrix();
+        this.renderer.setSize(window.innerWidth, window.innerHeight);
+        this.post.setSize(window.innerWidth, window.innerHeight);
+    };
+
+    private animate = (frame: FrameInfo) => {
         if (this.isDestroyed) return;
-        this.animationId = requestAnimationFrame(this.animate);
 
-        const time = this.clock.getElapsedTime();
+        this.time += frame.delta * this.motion.scale;
+        const time = this.time;
+        this.quality.sample(frame.now);
 
         // Smooth mouse lerp
         this.mouse.lerp(this.targetMouse, 0.05);
 
-        // Update globe
-        this.globe.rotation.y = time * 0.15 + this.mouse.x * 0.3;
-        this.globe.rotation.x = Math.sin(time * 0.2) * 0.1 + this.mouse.y * 0.2;
+        // Update globe — mouse parallax is dropped entirely in reduced motion
+        const mouseTilt = this.motion.reduced ? 0 : 1;
+        this.globe.rotation.y = time * 0.15 + this.mouse.x * 0.3 * mouseTilt;
+        this.globe.rotation.x = Math.sin(time * 0.2) * 0.1 + this.mouse.y * 0.2 * mouseTilt;
 
         this.globeCore.rotation.y = -time * 0.2;
         this.globeCore.rotation.x = time * 0.1;
@@ -396,20 +477,27 @@ export class PortalScene {
         this.globeMaterial.uniforms.time.value = time;
         this.globeMaterial.uniforms.mouseInfluence.value.set(this.mouse.x, this.mouse.y);
 
+        // Audio reaction: bass lifts the globe glow, mids and onsets pulse the core, highs spin the rings
+        const bands = this.audio?.bands ?? SILENT_BANDS;
+
         // Mouse proximity glow intensity
         const mouseDist = this.mouse.length();
-        const glowTarget = 0.5 + mouseDist * 0.5;
+        const glowTarget = this.description.glow + mouseDist * 0.5 + bands.low * 0.6 + bands.onset * 0.3;
         this.globeMaterial.uniforms.glowIntensity.value += (glowTarget - this.globeMaterial.uniforms.glowIntensity.value) * 0.05;
 
         this.coreMaterial.uniforms.time.value = time;
+        this.coreMaterial.uniforms.audioPulse.value = bands.mid * 0.6 + bands.onset * 0.6;
         this.particleMaterial.uniforms.time.value = time;
 
         // Rings rotation
+        const ringBoost = 1 + bands.high * 2 + bands.onset;
         this.rings.children.forEach((ring) => {
-            ring.rotation.y += ring.userData.speed * 0.01;
+            ring.rotation.y += ring.userData.speed * 0.01 * this.motion.scale * ringBoost;
             ring.rotation.z = Math.sin(time * 0.3 + ring.userData.baseTilt) * 0.05;
         });
 
+        this.hotspots?.update();
+
         // Particles slow rotation
         this.particles.rotation.y = time * 0.02;
         this.particles.rotation.x = Math.sin(time * 0.05) * 0.02;
@@ -419,40 +507,33 @@ export class PortalScene {
         (this.cursorParticles.material as THREE.ShaderMaterial).uniforms.mousePos.value.copy(mouseWorld);
         (this.cursorParticles.material as THREE.ShaderMaterial).uniforms.time.value = time;
 
-        this.renderer.render(this.scene, this.camera);
+        this.post.render(time);
     };
 
+    /** Make the globe markers and ring dots clickable, one hotspot per entry */
+    public setHotspots(hotspots: Hotspot[]): GlobeHotspots {
+        this.hotspots?.destroy();
+        this.hotspots = new GlobeHotspots(this.canvas, this.camera, this.globe, this.rings, hotspots);
+        this.hotspots.setEnabled(!this.isTransitioning);
+        return this.hotspots;
+    }
+
     public async transitionOut(): Promise<void> {
         if (this.isTransitioning) return;
         this.isTransitioning = true;
+        this.hotspots?.setEnabled(false);
 
         return new Promise((resolve) => {
-            const startTime = this.clock.getElapsedTime();
             const duration = 0.7;
+            let elapsed = 0;
 
-            const transitionAnimate = () => {
-                if (this.isDestroyed) { resolve(); return; }
-
-                const elapsed = this.clock.getElapsedTime() - startTime;
+            // Runs before the scene's own render tick, which draws the result
+            const removeTransition = ticker.add((frame) => {
+                elapsed += frame.delta;
                 const progress = Math.min(elapsed / duration, 1);
                 const eased = 1 - Math.pow(1 - progress, 3); // ease out cubic
 
-                // Zoom camera into globe
-                this.camera.position.z = 5 - eased * 5.5;
-                this.camera.fov = 60 + eased * 40;
-                this.camera.updateProjectionMatrix();
-
-                // Intensify glow
-                this.globeMaterial.uniforms.glowIntensity.value = 0.5 + eased * 3;
-                this.coreMaterial.uniforms.intensity.value = 1 + eased * 5;
-
-                // Scale rings outward and fade
-                this.rings.children.forEach((ring, i) => {
-                    const s = 1 + eased * (2 + i * 0.5);
-                    ring.scale.set(s, s, s);
-                    (ring as THREE.Mesh).material && ((ring as THREE.Mesh).material as THREE.MeshBasicMaterial).opacity !== undefined &&
-                        (((ring as THREE.Mesh).material as THREE.MeshBasicMaterial).opacity = 0.4 * (1 - eased));
-                });
+                this.setZoom(eased);
 
                 // Particles rush toward center
                 const posAttr = this.particles.geometry.getAttribute('position');
@@ -466,23 +547,117 @@ export class PortalScene {
                 }
                 posAttr.needsUpdate = true;
 
-                this.renderer.render(this.scene, this.camera);
+                if (progress >= 1) {
+                    removeTransition();
+                    resolve();
+                }
+            }, { priority: TickPriority.SIMULATION });
+
+            // Ends early, and still resolves, if the scene is destroyed mid-zoom
+            this.lifetime.add(() => {
+                removeTransition();
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Reverse of transitionOut for returning from the world: the scene starts
+     * fully zoomed into the globe and pulls back out to its resting framing.
+     */
+    public async transitionIn(): Promise<void> {
+        if (this.isTransitioning) return;
+        this.isTransitioning = true;
+        this.hotspots?.setEnabled(false);
+        this.setZoom(1);
 
-                if (progress < 1) {
-                    requestAnimationFrame(transitionAnimate);
-                } else {
+        return new Promise((resolve) => {
+            const duration = 1.1;
+            let elapsed = 0;
+
+            const removeTransition = ticker.add((frame) => {
+                elapsed += frame.delta;
+                const progress = Math.min(elapsed / duration, 1);
+                const eased = 1 - Math.pow(1 - progress, 3);
+                this.setZoom(1 - eased);
+
+                if (progress >= 1) {
+                    this.isTransitioning = false;
+                    this.hotspots?.setEnabled(true);
+                    removeTransition();
                     resolve();
                 }
-            };
+            }, { priority: TickPriority.SIMULATION });
+
+            // Ends early, and still resolves, if the scene is destroyed mid-zoom
+            this.lifetime.add(() => {
+                removeTransition();
+                resolve();
+            });
+        });
+    }
 
-            requestAnimationFrame(transitionAnimate);
+    /** Camera, glow, ring and effect state for a zoom into the globe, 0 = resting, 1 = inside */
+    private setZoom(amount: number) {
+        // Bloom swells and the view streaks toward the centre
+        this.post.params.bloomStrength = PORTAL_EFFECTS.bloomStrength + amount * 2;
+        this.post.params.radialBlur = amount * 0.35;
+
+        // Zoom camera into globe
+        this.camera.position.z = 5 - amount * 5.5;
+        this.camera.fov = 60 + amount * 40;
+        this.camera.updateProjectionMatrix();
+
+        // Intensify glow
+        this.globeMaterial.uniforms.glowIntensity.value = this.description.glow + amount * 3;
+        this.coreMaterial.uniforms.intensity.value = this.description.coreIntensity * (1 + amount * 5);
+
+        // Scale rings outward and fade
+        this.rings.children.forEach((ring, i) => {
+            const s = 1 + amount * (2 + i * 0.5);
+            ring.scale.set(s, s, s);
+            ((ring as THREE.Mesh).material as THREE.MeshBasicMaterial).opacity = RING_OPACITY * (1 - amount);
         });
     }
 
+    /** Renderer, scene graph and live tuning controls for the ?debug inspector */
+    public inspect(): InspectorTarget {
+        const d = this.description;
+        return {
+            name: 'Portal',
+            renderer: this.renderer,
+            scene: this.scene,
+            controls: [
+                {
+                    label: 'Exposure', min: 0, max: 3, step: 0.05,
+                    get: () => d.exposure,
+                    set: (v) => { d.exposure = this.renderer.toneMappingExposure = v; },
+                },
+                {
+                    label: 'Globe glow', min: 0, max: 3, step: 0.05,
+                    get: () => d.glow,
+                    set: (v) => { d.glow = v; },
+                },
+                {
+                    label: 'Core intensity', min: 0, max: 5, step: 0.05,
+                    get: () => d.coreIntensity,
+                    set: (v) => { d.coreIntensity = this.coreMaterial.uniforms.intensity.value = v; },
+                },
+                {
+                    label: 'Ambient light', min: 0, max: 3, step: 0.05,
+                    get: () => d.ambient.intensity,
+                    set: (v) => { d.ambient.intensity = this.ambientLight.intensity = v; },
+                },
+            ],
+        };
+    }
+
     public destroy() {
         this.isDestroyed = true;
-        cancelAnimationFrame(this.animationId);
-        this.renderer.dispose();
+        this.lifetime.destroy();
+        this.hotspots?.destroy();
+        this.post.destroy();
+        // Materials first: their shader programs are released through the renderer
         this.scene.traverse((obj) => {
             if ((obj as THREE.Mesh).geometry) (obj as THREE.Mesh).geometry.dispose();
             if ((obj as THREE.Mesh).material) {
@@ -491,5 +666,6 @@ export class PortalScene {
                 else mat.dispose();
             }
         });
+        this.renderer.dispose();
     }
 }
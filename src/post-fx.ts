@@ -0,0 +1,245 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/addons/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/addons/postprocessing/UnrealBloomPass.js';
+import { ShaderPass } from 'three/addons/postprocessing/ShaderPass.js';
+import { OutputPass } from 'three/addons/postprocessing/OutputPass.js';
+import type { EffectToggles } from './quality';
+import type { Disposable } from './lifecycle';
+import { theme } from './theme';
+
+/**
+ * Post-processing pipeline shared by the portal and world scenes.
+ * render → bloom → radial blur → finish (chromatic aberration, vignette,
+ * grain) → output (tone mapping + colour space). Which effects run is
+ * decided by the quality tier; when nothing is on and antialiasing is off,
+ * the scene renders straight to the canvas with no extra passes. Both paths tone map and
+ * encode the same way, as long as custom shaders end with
+ * <tonemapping_fragment> and <colorspace_fragment>.
+ * `params` is plain data, so transitions can animate it frame by frame.
+ */
+
+export interface EffectParams {
+    bloomStrength: number;
+    bloomRadius: number;
+    bloomThreshold: number;
+    /** Zoom blur toward the screen centre; 0 outside transitions */
+    radialBlur: number;
+    /** UV offset of the red and blue channels at the screen edge */
+    aberration: number;
+    /** 0–1 edge darkening */
+    vignette: number;
+    /** 0–1 film grain amount */
+    grain: number;
+}
+
+export const DEFAULT_EFFECT_PARAMS: EffectParams = {
+    bloomStrength: 0.7,
+    bloomRadius: 0.4,
+    bloomThreshold: 0.2,
+    radialBlur: 0,
+    aberration: 0.002,
+    vignette: 0.5,
+    grain: 0.3,
+};
+
+const MSAA_SAMPLES = 4;
+
+const FULLSCREEN_VERTEX = `
+    varying vec2 vUv;
+    void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+`;
+
+const RadialBlurShader = {
+    uniforms: {
+        tDiffuse: { value: null },
+        strength: { value: 0 },
+        center: { value: new THREE.Vector2(0.5, 0.5) },
+    },
+    vertexShader: FULLSCREEN_VERTEX,
+    fragmentShader: `
+        uniform sampler2D tDiffuse;
+        uniform float strength;
+        uniform vec2 center;
+        varying vec2 vUv;
+
+        const int SAMPLES = 12;
+
+        void main() {
+            vec2 dir = vUv - center;
+            vec4 color = vec4(0.0);
+            for (int i = 0; i < SAMPLES; i++) {
+                float t = float(i) / float(SAMPLES - 1);
+                color += texture2D(tDiffuse, vUv - dir * strength * t);
+            }
+            gl_FragColor = color / float(SAMPLES);
+        }
+    `,
+};
+
+const FinishShader = {
+    uniforms: {
+        tDiffuse: { value: null },
+        time: { value: 0 },
+        aberration: { value: 0 },
+        vignette: { value: 0 },
+        grain: { value: 0 },
+    },
+    vertexShader: FULLSCREEN_VERTEX,
+    fragmentShader: `
+        uniform sampler2D tDiffuse;
+        uniform float time;
+        uniform float aberration;
+        uniform float vignette;
+        uniform float grain;
+        varying vec2 vUv;
+
+        float random(vec2 p) {
+            return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+        }
+
+        void main() {
+            // Chromatic aberration grows toward the edges
+            vec2 offset = (vUv - 0.5) * aberration;
+            vec4 base = texture2D(tDiffuse, vUv);
+            vec3 color = vec3(
+                texture2D(tDiffuse, vUv + offset).r,
+                base.g,
+                texture2D(tDiffuse, vUv - offset).b
+            );
+
+            float dist = distance(vUv, vec2(0.5));
+            color *= 1.0 - smoothstep(0.4, 0.95, dist) * vignette;
+
+            color += (random(vUv + fract(time)) - 0.5) * grain * 0.08;
+
+            gl_FragColor = vec4(color, base.a);
+        }
+    `,
+};
+
+export class PostPipeline implements Disposable {
+    public readonly params: EffectParams;
+    private composer: EffectComposer;
+    private bloomPass: UnrealBloomPass;
+    private radialBlurPass: ShaderPass;
+    private finishPass: ShaderPass;
+    private outputPass: OutputPass;
+    private unsubscribeTheme: () => void;
+    // Whether the canvas currently clears to an opaque background
+    private opaque: boolean = false;
+    private antialias: boolean = false;
+
+    constructor(
+        private renderer: THREE.WebGLRenderer,
+        private scene: THREE.Scene,
+        private camera: THREE.Camera,
+        private toggles: EffectToggles,
+        params: Partial<EffectParams> = {},
+    ) {
+        this.params = { ...DEFAULT_EFFECT_PARAMS, ...params };
+
+        this.unsubscribeTheme = theme.onChange(() => this.applyClear());
+
+        const size = renderer.getSize(new THREE.Vector2());
+        this.composer = new EffectComposer(renderer);
+        this.bloomPass = new UnrealBloomPass(size, this.params.bloomStrength, this.params.bloomRadius, this.params.bloomThreshold);
+        this.radialBlurPass = new ShaderPass(RadialBlurShader);
+        this.finishPass = new ShaderPass(FinishShader);
+        this.outputPass = new OutputPass();
+
+        this.composer.addPass(new RenderPass(scene, camera));
+        this.composer.addPass(this.bloomPass);
+        this.composer.addPass(this.radialBlurPass);
+        this.composer.addPass(this.finishPass);
+        this.composer.addPass(this.outputPass);
+    }
+
+    /** Switch effects on or off, e.g. when the quality tier changes */
+    public setEffects(toggles: EffectToggles) {
+        this.toggles = toggles;
+    }
+
+    /**
+     * Multisample the composer's targets. The renderers are created without
+     * antialiasing, so this is the only AA and can change with the tier.
+     */
+    public setAntialias(antialias: boolean) {
+        if (antialias === this.antialias) return;
+        this.antialias = antialias;
+        const samples = antialias ? MSAA_SAMPLES : 0;
+        [this.composer.renderTarget1, this.composer.renderTarget2].forEach((target) => {
+            target.samples = samples;
+            // Reallocated with the new sample count on next use
+            target.dispose();
+        });
+    }
+
+    public setSize(width: number, height: number) {
+        this.composer.setSize(width, height);
+    }
+
+    public setPixelRatio(pixelRatio: number) {
+        this.composer.setPixelRatio(pixelRatio);
+    }
+
+    /** Render one frame; `time` drives the grain so it follows the scene clock */
+    public render(time: number) {
+        const { params, toggles } = this;
+        const bloom = toggles.bloom && params.bloomStrength > 0;
+        const blur = toggles.radialBlur && params.radialBlur > 0.001;
+        const aberration = toggles.chromaticAberration ? params.aberration : 0;
+        const vignette = toggles.vignette ? params.vignette : 0;
+        const grain = toggles.grain ? params.grain : 0;
+        const finish = aberration > 0 || vignette > 0 || grain > 0;
+
+        const passes = bloom || blur || finish;
+        this.setOpaque(passes);
+        if (!passes && !this.antialias) {
+            this.renderer.render(this.scene, this.camera);
+            return;
+        }
+
+        this.bloomPass.enabled = bloom;
+        this.bloomPass.strength = params.bloomStrength;
+        this.bloomPass.radius = params.bloomRadius;
+        this.bloomPass.threshold = params.bloomThreshold;
+
+        this.radialBlurPass.enabled = blur;
+        this.radialBlurPass.uniforms.strength.value = params.radialBlur;
+
+        this.finishPass.enabled = finish;
+        this.finishPass.uniforms.time.value = time;
+        this.finishPass.uniforms.aberration.value = aberration;
+        this.finishPass.uniforms.vignette.value = vignette;
+        this.finishPass.uniforms.grain.value = grain;
+
+        this.composer.render(0);
+    }
+
+    /**
+     * Passes clear to the theme background, since bloom and grain would
+     * otherwise spill into the transparent clear; the direct path stays
+     * transparent over the page background
+     */
+    private setOpaque(opaque: boolean) {
+        if (opaque === this.opaque) return;
+        this.opaque = opaque;
+        this.applyClear();
+    }
+
+    private applyClear() {
+        this.renderer.setClearColor(theme.colors.background, this.opaque ? 1 : 0);
+    }
+
+    public destroy() {
+        this.unsubscribeTheme();
+        this.composer.passes.forEach((pass) => pass.dispose());
+        // UnrealBloomPass.dispose() leaves its high-pass material behind
+        this.bloomPass.materialHighPassFilter.dispose();
+        this.composer.dispose();
+    }
+}
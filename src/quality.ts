@@ -0,0 +1,173 @@
+/**
+ * Adaptive quality governor.
+ * Measures frame time at runtime and steps the render cost of the scenes
+ * up or down between four tiers, with hysteresis so it doesn't oscillate.
+ */
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+/** Post-processing effects enabled at a tier (see post-fx.ts) */
+export interface EffectToggles {
+    bloom: boolean;
+    vignette: boolean;
+    grain: boolean;
+    chromaticAberration: boolean;
+    /** Transition-only zoom blur */
+    radialBlur: boolean;
+}
+
+export interface QualitySettings {
+    /** Upper bound for renderer pixel ratio (clamped to devicePixelRatio) */
+    pixelRatio: number;
+    /** MSAA on the post-processing render targets (see post-fx.ts) */
+    antialias: boolean;
+    /** Fraction of the particle / star buffers that is drawn */
+    particleScale: number;
+    /** Number of visible volumetric fog planes in the world */
+    fogPlanes: number;
+    /** Number of visible data dots per portal ring */
+    ringDots: number;
+    /** Number of visible floating holographic objects in the world */
+    floatingObjects: number;
+    /** Draw every n-th grid floor line */
+    gridStep: number;
+    /** Positional audio emitters that may play at once (HRTF panners are costly) */
+    audioEmitters: number;
+    effects: EffectToggles;
+}
+
+export const QUALITY_PRESETS: Record<QualityTier, QualitySettings> = {
+    low: {
+        pixelRatio: 1, antialias: false, particleScale: 0.3, fogPlanes: 2, ringDots: 8, floatingObjects: 8, gridStep: 4, audioEmitters: 2,
+        effects: { bloom: false, vignette: false, grain: false, chromaticAberration: false, radialBlur: false },
+    },
+    medium: {
+        pixelRatio: 1.25, antialias: false, particleScale: 0.55, fogPlanes: 4, ringDots: 12, floatingObjects: 12, gridStep: 2, audioEmitters: 3,
+        effects: { bloom: true, vignette: true, grain: false, chromaticAberration: false, radialBlur: true },
+    },
+    high: {
+        pixelRatio: 1.5, antialias: true, particleScale: 0.8, fogPlanes: 6, ringDots: 16, floatingObjects: 15, gridStep: 1, audioEmitters: 4,
+        effects: { bloom: true, vignette: true, grain: true, chromaticAberration: true, radialBlur: true },
+    },
+    ultra: {
+        pixelRatio: 2, antialias: true, particleScale: 1, fogPlanes: 8, ringDots: 20, floatingObjects: 18, gridStep: 1, audioEmitters: 6,
+        effects: { bloom: true, vignette: true, grain: true, chromaticAberration: true, radialBlur: true },
+    },
+};
+
+// Frame-time thresholds (ms). Step down above DOWNGRADE, step up below UPGRADE.
+// The gap between the two is the hysteresis band.
+const DOWNGRADE_FRAME_MS = 1000 / 45;
+const UPGRADE_FRAME_MS = 1000 / 58;
+const SAMPLE_WINDOW = 90;
+const UPGRADE_STABLE_WINDOWS = 3;
+const COOLDOWN_MS = 2000;
+const MAX_FRAME_MS = 250; // ignore stalls (tab switches, GC pauses, breakpoints)
+
+type QualityListener = (settings: QualitySettings, tier: QualityTier) => void;
+
+export class QualityGovernor {
+    private currentTier: QualityTier;
+    private override: QualityTier | null = null;
+    private listeners: Set<QualityListener> = new Set();
+    private samples: number[] = [];
+    private lastFrame: number = 0;
+    private lastChange: number = 0;
+    private stableWindows: number = 0;
+
+    constructor(initialTier?: QualityTier) {
+        this.currentTier = initialTier ?? QualityGovernor.detectInitialTier();
+        document.documentElement.dataset.quality = this.currentTier;
+    }
+
+    /** Rough starting guess from the device, refined by measurement */
+    public static detectInitialTier(): QualityTier {
+        const cores = navigator.hardwareConcurrency || 4;
+        const coarse = window.matchMedia('(pointer: coarse)').matches;
+        if (coarse || cores <= 2) return 'low';
+        if (cores <= 4) return 'medium';
+        return 'high';
+    }
+
+    get tier(): QualityTier {
+        return this.override ?? this.currentTier;
+    }
+
+    get settings(): QualitySettings {
+        return QUALITY_PRESETS[this.tier];
+    }
+
+    get isOverridden(): boolean {
+        return this.override !== null;
+    }
+
+    /** Effective pixel ratio for the current tier on this display */
+    get pixelRatio(): number {
+        return Math.min(window.devicePixelRatio, this.settings.pixelRatio);
+    }
+
+    /** Pin a tier manually; pass null to hand control back to the governor */
+    public setOverride(tier: QualityTier | null) {
+        const before = this.tier;
+        this.override = tier;
+        this.resetSamples();
+        if (this.tier !== before) this.emit();
+    }
+
+    public onChange(listener: QualityListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Call once per rendered frame */
+    public sample(now: number = performance.now()) {
+        if (this.lastFrame === 0) {
+            this.lastFrame = now;
+            return;
+        }
+        const frameMs = now - this.lastFrame;
+        this.lastFrame = now;
+
+        if (this.override || frameMs <= 0 || frameMs > MAX_FRAME_MS) return;
+        if (now - this.lastChange < COOLDOWN_MS) return;
+
+        this.samples.push(frameMs);
+        if (this.samples.length < SAMPLE_WINDOW) return;
+
+        const avg = this.samples.reduce((a, b) => a + b, 0) / this.samples.length;
+        this.samples = [];
+
+        const index = QUALITY_TIERS.indexOf(this.currentTier);
+        if (avg > DOWNGRADE_FRAME_MS) {
+            this.stableWindows = 0;
+            if (index > 0) this.step(QUALITY_TIERS[index - 1], now);
+        } else if (avg < UPGRADE_FRAME_MS) {
+            // Require several consecutive fast windows before stepping up
+            this.stableWindows++;
+            if (this.stableWindows >= UPGRADE_STABLE_WINDOWS && index < QUALITY_TIERS.length - 1) {
+                this.step(QUALITY_TIERS[index + 1], now);
+            }
+        } else {
+            this.stableWindows = 0;
+        }
+    }
+
+    private step(tier: QualityTier, now: number) {
+        this.currentTier = tier;
+        this.lastChange = now;
+        this.resetSamples();
+        this.emit();
+    }
+
+    private resetSamples() {
+        this.samples = [];
+        this.stableWindows = 0;
+    }
+
+    private emit() {
+        document.documentElement.dataset.quality = this.tier;
+        this.listeners.forEach(l => l(this.settings, this.tier));
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Seeded random numbers for scene generation.
+ * Scenes draw star fields, particles and props from a `Random` instead of
+ * Math.random, so the same seed always builds the same geometry — which is
+ * what screenshot and visual regression tests need.
+ */
+
+/** Returns a float in [0, 1), like Math.random */
+export type Random = () => number;
+
+/** Mulberry32: small, fast and good enough for scattering geometry */
+export function createRandom(seed: number): Random {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Turn a seed from a URL or config into a 32-bit integer. Whole numbers are
+ * used as they are; any other text is hashed (FNV-1a).
+ */
+export function parseSeed(value: string): number {
+    if (/^\d+$/.test(value)) return Number(value) >>> 0;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/** A fresh seed for visits that didn't ask for one */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
+/** A float in [min, max) */
+export function between(random: Random, min: number, max: number): number {
+    return min + random() * (max - min);
+}
+
+/** Index into `weights`, chosen in proportion to each weight */
+export function pickWeighted(random: Random, weights: number[]): number {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let roll = random() * total;
+    for (let i = 0; i < weights.length - 1; i++) {
+        roll -= weights[i];
+        if (roll < 0) return i;
+    }
+    return weights.length - 1;
+}
@@ -0,0 +1,147 @@
+import type { Disposable } from './lifecycle';
+
+/**
+ * Declarative reveal engine.
+ * Elements opt in with attributes and get a class once they scroll into view:
+ *
+ *   data-reveal            "once" (default) or "repeat" to hide again on exit
+ *   data-reveal-group      config key for trigger line + stagger
+ *   data-reveal-delay      extra delay in ms for this element
+ *
+ * Built on IntersectionObserver, so nothing runs while the page is still.
+ */
+
+export interface RevealGroupConfig {
+    /** Reveal once the element's top passes this fraction of the viewport height */
+    viewport: number;
+    /** Delay between elements of the group revealed in the same batch (ms) */
+    stagger: number;
+}
+
+export interface RevealConfig {
+    className: string;
+    groups: Record<string, RevealGroupConfig>;
+    defaultGroup: RevealGroupConfig;
+}
+
+export const DEFAULT_REVEAL_CONFIG: RevealConfig = {
+    className: 'visible',
+    groups: {
+        services: { viewport: 0.85, stagger: 100 },
+        timeline: { viewport: 0.85, stagger: 150 },
+        team: { viewport: 0.85, stagger: 100 },
+        portfolio: { viewport: 0.9, stagger: 80 },
+        testimonials: { viewport: 0.9, stagger: 120 },
+        cta: { viewport: 0.85, stagger: 0 },
+    },
+    defaultGroup: { viewport: 0.85, stagger: 0 },
+};
+
+export interface RevealEvent {
+    element: HTMLElement;
+    group: string;
+    visible: boolean;
+}
+
+type RevealListener = (event: RevealEvent) => void;
+
+export class RevealEngine implements Disposable {
+    private config: RevealConfig;
+    private observers: Map<number, IntersectionObserver> = new Map();
+    private timers: Map<HTMLElement, number> = new Map();
+    private listeners: Set<RevealListener> = new Set();
+
+    constructor(private root: HTMLElement, config: Partial<RevealConfig> = {}) {
+        this.config = {
+            ...DEFAULT_REVEAL_CONFIG,
+            ...config,
+            groups: { ...DEFAULT_REVEAL_CONFIG.groups, ...config.groups },
+        };
+    }
+
+    /** Start watching every [data-reveal] element under `scope` */
+    public observe(scope: ParentNode = this.root) {
+        scope.querySelectorAll<HTMLElement>('[data-reveal]').forEach((el) => {
+            const { viewport } = this.groupConfig(el);
+            this.observerFor(viewport).observe(el);
+        });
+    }
+
+    public onReveal(listener: RevealListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    public destroy() {
+        this.observers.forEach(o => o.disconnect());
+        this.observers.clear();
+        this.timers.forEach(t => clearTimeout(t));
+        this.timers.clear();
+        this.listeners.clear();
+    }
+
+    private groupConfig(el: HTMLElement): RevealGroupConfig {
+        const group = el.dataset.revealGroup;
+        return (group && this.config.groups[group]) || this.config.defaultGroup;
+    }
+
+    /** One observer per trigger line, since rootMargin is per observer */
+    private observerFor(viewport: number): IntersectionObserver {
+        let observer = this.observers.get(viewport);
+        if (!observer) {
+            const bottomInset = Math.round((1 - viewport) * 100);
+            observer = new IntersectionObserver(this.handleEntries, {
+                root: this.root,
+                rootMargin: `0px 0px -${bottomInset}% 0px`,
+                threshold: 0,
+            });
+            this.observers.set(viewport, observer);
+        }
+        return observer;
+    }
+
+    private handleEntries = (entries: IntersectionObserverEntry[]) => {
+        // Stagger counts restart per batch, per group, in document order
+        const batchIndex: Record<string, number> = {};
+        const ordered = entries
+            .map(e => e.target as HTMLElement)
+            .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+        const byTarget = new Map(entries.map(e => [e.target as HTMLElement, e]));
+
+        ordered.forEach((el) => {
+            const entry = byTarget.get(el)!;
+            const repeat = el.dataset.reveal === 'repeat';
+
+            if (entry.isIntersecting) {
+                if (el.classList.contains(this.config.className) || this.timers.has(el)) return;
+                const group = el.dataset.revealGroup ?? '';
+                const index = batchIndex[group] ?? 0;
+                batchIndex[group] = index + 1;
+
+                const delay = index * this.groupConfig(el).stagger + Number(el.dataset.revealDelay || 0);
+                this.timers.set(el, window.setTimeout(() => {
+                    this.timers.delete(el);
+                    this.setVisible(el, true);
+                    if (!repeat) this.observers.forEach(o => o.unobserve(el));
+                }, delay));
+            } else if (repeat) {
+                const pending = this.timers.get(el);
+                if (pending !== undefined) {
+                    clearTimeout(pending);
+                    this.timers.delete(el);
+                }
+                // Only hide once it has left below the trigger line, not when scrolled past upward
+                if (entry.boundingClientRect.top > 0) this.setVisible(el, false);
+            }
+        });
+    };
+
+    private setVisible(el: HTMLElement, visible: boolean) {
+        if (el.classList.contains(this.config.className) === visible) return;
+        el.classList.toggle(this.config.className, visible);
+
+        const event: RevealEvent = { element: el, group: el.dataset.revealGroup ?? '', visible };
+        el.dispatchEvent(new CustomEvent('reveal', { detail: event, bubbles: true }));
+        this.listeners.forEach(l => l(event));
+    }
+}
@@ -0,0 +1,106 @@
+import type { Disposable } from './lifecycle';
+
+/**
+ * Minimal hash router for world sections.
+ * Scrolling keeps the hash in sync with replaceState; explicit navigation
+ * (nav links, CTAs) pushes history entries so back/forward walk between
+ * visited sections.
+ */
+
+export const SECTION_IDS = ['home', 'services', 'portfolio', 'about', 'testimonials', 'cta', 'contact'] as const;
+
+export type SectionId = typeof SECTION_IDS[number];
+
+/** Spoken names, announced to screen readers as sections change */
+export const SECTION_LABELS: Record<SectionId, string> = {
+    home: 'Home',
+    services: 'Services',
+    portfolio: 'Portfolio',
+    about: 'About',
+    testimonials: 'Testimonials',
+    cta: 'Get started',
+    contact: 'Contact',
+};
+
+export function isSectionId(value: string): value is SectionId {
+    return (SECTION_IDS as readonly string[]).includes(value);
+}
+
+export class SectionRouter implements Disposable {
+    private current: SectionId | null = null;
+    public readonly initialSection: SectionId | null;
+
+    constructor(private onNavigate: (id: SectionId) => void) {
+        this.initialSection = SectionRouter.parse(window.location.hash);
+        window.addEventListener('popstate', this.handlePopState);
+    }
+
+    public static parse(hash: string): SectionId | null {
+        const id = decodeURIComponent(hash.replace(/^#/, ''));
+        return isSectionId(id) ? id : null;
+    }
+
+    /** Push a history entry and move to the section */
+    public navigate(id: SectionId) {
+        if (id !== this.current) {
+            history.pushState({ section: id }, '', `#${id}`);
+            this.current = id;
+        }
+        this.onNavigate(id);
+    }
+
+    /** Reflect the section currently on screen without adding history */
+    public sync(id: SectionId) {
+        if (id === this.current) return;
+        this.current = id;
+        history.replaceState({ section: id }, '', `#${id}`);
+    }
+
+    /** Drop the section hash when leaving the world; back returns to it */
+    public clear() {
+        this.current = null;
+        if (window.location.hash) {
+            history.pushState(null, '', window.location.pathname + window.location.search);
+        }
+    }
+
+    public destroy() {
+        window.removeEventListener('popstate', this.handlePopState);
+    }
+
+    private handlePopState = () => {
+        const id = SectionRouter.parse(window.location.hash) ?? 'home';
+        this.current = id;
+        this.onNavigate(id);
+    };
+}
+
+export interface SectionScroll {
+    /** Overall 0–1 scroll progress of the container */
+    progress: number;
+    /** Section whose top has most recently passed the top of the container */
+    section: SectionId;
+    /** 0–1 progress through that section, from its top to the next section's top */
+    offset: number;
+}
+
+/** Where the container is scrolled to, in terms of sections */
+export function measureSectionScroll(container: HTMLElement): SectionScroll {
+    const scrollTop = container.scrollTop;
+    const maxScroll = container.scrollHeight - container.clientHeight;
+    const progress = maxScroll > 0 ? scrollTop / maxScroll : 0;
+
+    // Sections near the bottom may never reach the top; clamp so they still get their turn
+    const tops = SECTION_IDS.map(id => Math.min(document.getElementById(id)?.offsetTop ?? 0, maxScroll));
+    let index = 0;
+    for (let i = 0; i < tops.length; i++) {
+        if (tops[i] <= scrollTop) index = i;
+    }
+
+    // The last section ends where scrolling ends
+    const start = tops[index];
+    const end = index < tops.length - 1 ? tops[index + 1] : maxScroll;
+    const offset = Math.min(Math.max((scrollTop - start) / Math.max(end - start, 1), 0), 1);
+
+    return { progress, section: SECTION_IDS[index], offset };
+}
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { installBrowser, installFrames } from './test-browser';
+import { QualityGovernor } from './quality';
+import { MotionPreference } from './motion';
+import { PortalScene } from './portal';
+import { WorldScene } from './world';
+import { DEFAULT_SCENE } from './scene-description';
+
+/**
+ * DEFAULT_SCENE has to reproduce the original hand-written scenes. These are
+ * the values the portal and world used before they were described as data.
+ */
+
+const BASELINE_STARS: [number, number, number][] = [[0, 0.7, 1], [0.6, 0.3, 0.9], [1, 0.2, 0.5], [0.8, 0.85, 1]];
+
+const BASELINE_LIGHTS = [
+    { color: 0x00d4ff, intensity: 1.8, distance: 60, position: [5, 5, -5] },
+    { color: 0xa855f7, intensity: 1.2, distance: 60, position: [-5, 3, -10] },
+    { color: 0xff2d78, intensity: 0.6, distance: 40, position: [0, 8, -20] },
+];
+
+const BASELINE_RINGS = [
+    { radius: 1.8, tilt: 0.4, speed: 0.3, color: 0x00d4ff },
+    { radius: 2.1, tilt: -0.6, speed: -0.2, color: 0xa855f7 },
+    { radius: 2.4, tilt: 0.2, speed: 0.15, color: 0xff2d78 },
+];
+
+const srgb = (color: THREE.Color) => color.getHex(THREE.SRGBColorSpace);
+
+/** Every object below `root` that passes `guard`, in scene order */
+function collect<T>(root: THREE.Object3D, guard: (obj: THREE.Object3D) => obj is T): T[] {
+    const found: T[] = [];
+    root.traverse((obj: THREE.Object3D) => {
+        if (guard(obj)) found.push(obj);
+    });
+    return found;
+}
+
+describe('default scene description', () => {
+    let canvas: HTMLCanvasElement;
+    let quality: QualityGovernor;
+    let motion: MotionPreference;
+
+    beforeEach(() => {
+        installBrowser();
+        installFrames();
+        canvas = document.createElement('canvas');
+        document.body.append(canvas);
+        quality = new QualityGovernor('high');
+        motion = new MotionPreference();
+    });
+
+    afterEach(() => {
+        canvas.remove();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('builds the original star palette, fog and lights in the world', () => {
+        const world = new WorldScene(canvas, quality, motion);
+        const scene: THREE.Scene = world['scene'];
+
+        const stars = collect(scene, (obj): obj is THREE.Points => obj instanceof THREE.Points && !!obj.material.uniforms?.palette)[0];
+        const palette: THREE.Color[] = stars.material.uniforms.palette.value;
+        expect(palette).toHaveLength(BASELINE_STARS.length);
+        // Same shares as the original thresholds at 0.4, 0.7 and 0.9
+        expect(DEFAULT_SCENE.world.stars.colors.map(c => c.weight)).toEqual([0.4, 0.3, 0.2, 0.1]);
+        palette.forEach((color, i) => {
+            const { r, g, b } = color.getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+            [r, g, b].forEach((channel, c) => expect(channel).toBeCloseTo(BASELINE_STARS[i][c], 4));
+        });
+
+        expect(srgb(scene.fog.color)).toBe(0x050510);
+        expect(scene.fog.density).toBe(0.04);
+
+        const lights = collect(scene, (obj): obj is THREE.PointLight => obj instanceof THREE.PointLight);
+        expect(lights.map(light => ({
+            color: srgb(light.color),
+            intensity: light.intensity,
+            distance: light.distance,
+            position: light.position.toArray(),
+        }))).toEqual(BASELINE_LIGHTS);
+
+        world.destroy();
+    });
+
+    it('builds the original rings and ambient light in the portal', () => {
+        const portal = new PortalScene(canvas, quality, motion);
+        const scene: THREE.Scene = portal['scene'];
+
+        const rings = collect(scene, (obj): obj is THREE.Mesh => obj instanceof THREE.Mesh && obj.geometry.type === 'TorusGeometry');
+        expect(rings.map(ring => ({
+            radius: ring.geometry.parameters.radius,
+            tilt: ring.rotation.x,
+            speed: ring.userData.speed,
+            color: srgb(ring.material.color),
+        }))).toEqual(BASELINE_RINGS);
+
+        const ambient = collect(scene, (obj): obj is THREE.AmbientLight => obj instanceof THREE.AmbientLight);
+        expect(ambient.map(light => [srgb(light.color), light.intensity])).toEqual([[0x001133, 0.5]]);
+
+        portal.destroy();
+    });
+});
@@ -0,0 +1,351 @@
+import { THEME_TOKENS, type ThemeToken } from './theme';
+
+/**
+ * Declarative description of the portal and world scenes.
+ * Counts, scatter ranges, colours, lights and animation speeds live here as
+ * data, so they can be tuned from src/scene.json without touching scene code.
+ * The file only needs the values that differ from DEFAULT_SCENE; everything
+ * is checked against a schema and invalid files fall back to the defaults.
+ */
+
+export const SCENE_DESCRIPTION_VERSION = 1;
+
+/** Uniform distribution: [min, max] */
+export type Range = [number, number];
+export type Vec3 = [number, number, number];
+
+/** A theme token, which follows theme switches, or a fixed sRGB colour as [r, g, b] in 0–1 */
+export type SceneColor = ThemeToken | Vec3;
+
+export interface WeightedColor {
+    color: SceneColor;
+    /** Relative share; weights don't need to add up to 1 */
+    weight: number;
+}
+
+export type ShapeType = 'box' | 'octahedron' | 'icosahedron' | 'dodecahedron' | 'torusKnot';
+
+export const SHAPE_TYPES: ShapeType[] = ['box', 'octahedron', 'icosahedron', 'dodecahedron', 'torusKnot'];
+
+export interface LightDescription {
+    color: ThemeToken;
+    intensity: number;
+    distance: number;
+    position: Vec3;
+}
+
+export interface WorldSceneDescription {
+    exposure: number;
+    /** `densityScale` multiplies the per-section density from the camera path */
+    fog: { color: ThemeToken; density: number; densityScale: number };
+    stars: { count: number; x: Range; y: Range; z: Range; size: Range; colors: WeightedColor[] };
+    grid: {
+        color: ThemeToken;
+        opacity: number;
+        size: number;
+        divisions: number;
+        height: number;
+        /** Units per second the floor slides towards the camera */
+        scrollSpeed: number;
+    };
+    floatingObjects: {
+        count: number;
+        shapes: ShapeType[];
+        colors: ThemeToken[];
+        size: Range;
+        opacity: Range;
+        x: Range;
+        y: Range;
+        z: Range;
+        /** Bob frequency, also the tremolo rate of the object's spatial tone */
+        floatSpeed: Range;
+        floatAmplitude: Range;
+        rotationSpeed: Range;
+    };
+    fogPlanes: {
+        count: number;
+        width: number;
+        height: number;
+        colors: ThemeToken[];
+        opacity: number;
+        x: Range;
+        y: Range;
+        /** z of the first plane, and the gap to each next one further away */
+        start: number;
+        spacing: number;
+        tiltX: Range;
+        tiltY: Range;
+    };
+    lights: LightDescription[];
+}
+
+export interface RingDescription {
+    radius: number;
+    tilt: number;
+    /** Spin speed; negative turns the other way */
+    speed: number;
+    color: ThemeToken;
+    dots: number;
+}
+
+export interface PortalSceneDescription {
+    exposure: number;
+    /** Resting glow of the globe shell, before mouse and audio lift it */
+    glow: number;
+    coreIntensity: number;
+    rings: RingDescription[];
+    /** Scattered in a spherical shell between the radius range */
+    particles: { count: number; radius: Range; size: Range; colors: WeightedColor[] };
+    cursorParticles: { count: number; spread: number; size: Range };
+    ambient: { color: ThemeToken; intensity: number };
+}
+
+export interface SceneDescription {
+    version: number;
+    world: WorldSceneDescription;
+    portal: PortalSceneDescription;
+}
+
+export const DEFAULT_SCENE: SceneDescription = {
+    version: SCENE_DESCRIPTION_VERSION,
+    world: {
+        exposure: 0.8,
+        fog: { color: 'background', density: 0.04, densityScale: 1 },
+        stars: {
+            count: 2000,
+            x: [-100, 100],
+            y: [-40, 60],
+            z: [-150, 50],
+            size: [0.2, 1.4],
+            // The original star tints; fixed, so they don't follow theme switches
+            colors: [
+                { color: [0, 0.7, 1], weight: 0.4 },
+                { color: [0.6, 0.3, 0.9], weight: 0.3 },
+                { color: [1, 0.2, 0.5], weight: 0.2 },
+                { color: [0.8, 0.85, 1], weight: 0.1 },
+            ],
+        },
+        grid: { color: 'primary', opacity: 0.06, size: 100, divisions: 50, height: -3, scrollSpeed: 0.5 },
+        floatingObjects: {
+            count: 18,
+            shapes: SHAPE_TYPES,
+            colors: ['primary', 'secondary', 'accent', 'highlight'],
+            size: [0.2, 0.8],
+            opacity: [0.08, 0.16],
+            x: [-20, 20],
+            y: [-3, 9],
+            z: [-35, 15],
+            floatSpeed: [0.2, 0.8],
+            floatAmplitude: [0.3, 1.1],
+            rotationSpeed: [-1.25, 1.25],
+        },
+        fogPlanes: {
+            count: 8,
+            width: 80,
+            height: 20,
+            colors: ['primary', 'secondary', 'ambient', 'accent', 'highlight'],
+            opacity: 0.03,
+            x: [-15, 15],
+            y: [-3, 7],
+            start: -8,
+            spacing: 12,
+            tiltX: [-0.15, 0.15],
+            tiltY: [-0.4, 0.4],
+        },
+        lights: [
+            { color: 'primary', intensity: 1.8, distance: 60, position: [5, 5, -5] },
+            { color: 'secondary', intensity: 1.2, distance: 60, position: [-5, 3, -10] },
+            { color: 'accent', intensity: 0.6, distance: 40, position: [0, 8, -20] },
+        ],
+    },
+    portal: {
+        exposure: 1,
+        glow: 0.5,
+        coreIntensity: 1,
+        rings: [
+            { radius: 1.8, tilt: 0.4, speed: 0.3, color: 'primary', dots: 20 },
+            { radius: 2.1, tilt: -0.6, speed: -0.2, color: 'secondary', dots: 20 },
+            { radius: 2.4, tilt: 0.2, speed: 0.15, color: 'accent', dots: 20 },
+        ],
+        particles: {
+            count: 1200,
+            radius: [4, 22],
+            size: [0.3, 1.8],
+            colors: [
+                { color: 'primary', weight: 0.5 },
+                { color: 'secondary', weight: 0.3 },
+                { color: 'accent', weight: 0.2 },
+            ],
+        },
+        cursorParticles: { count: 30, spread: 0.4, size: [0.5, 1.7] },
+        ambient: { color: 'ambient', intensity: 0.5 },
+    },
+};
+
+// ─── VALIDATION ───
+
+type Rule = 'count' | 'number' | 'range' | 'vec3' | 'color' | 'colors' | 'weighted' | 'shapes';
+// An object spec checks each field; a one-element array spec checks every list item
+type Spec = Rule | { [field: string]: Spec } | [Spec];
+
+const RANGE_SPEC = (fields: string[]) => Object.fromEntries(fields.map(f => [f, 'range'])) as Record<string, Spec>;
+
+const SCHEMA: Spec = {
+    version: 'count',
+    world: {
+        exposure: 'number',
+        fog: { color: 'color', density: 'number', densityScale: 'number' },
+        stars: { count: 'count', ...RANGE_SPEC(['x', 'y', 'z', 'size']), colors: 'weighted' },
+        grid: { color: 'color', opacity: 'number', size: 'number', divisions: 'count', height: 'number', scrollSpeed: 'number' },
+        floatingObjects: {
+            count: 'count',
+            shapes: 'shapes',
+            colors: 'colors',
+            ...RANGE_SPEC(['size', 'opacity', 'x', 'y', 'z', 'floatSpeed', 'floatAmplitude', 'rotationSpeed']),
+        },
+        fogPlanes: {
+            count: 'count',
+            width: 'number',
+            height: 'number',
+            colors: 'colors',
+            opacity: 'number',
+            start: 'number',
+            spacing: 'number',
+            ...RANGE_SPEC(['x', 'y', 'tiltX', 'tiltY']),
+        },
+        lights: [{ color: 'color', intensity: 'number', distance: 'number', position: 'vec3' }],
+    },
+    portal: {
+        exposure: 'number',
+        glow: 'number',
+        coreIntensity: 'number',
+        rings: [{ radius: 'number', tilt: 'number', speed: 'number', color: 'color', dots: 'count' }],
+        particles: { count: 'count', radius: 'range', size: 'range', colors: 'weighted' },
+        cursorParticles: { count: 'count', spread: 'number', size: 'range' },
+        ambient: { color: 'color', intensity: 'number' },
+    },
+};
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isToken = (v: unknown): v is ThemeToken => THEME_TOKENS.includes(v as ThemeToken);
+const isRgb = (v: unknown): v is Vec3 => Array.isArray(v) && v.length === 3 && v.every(c => isFiniteNumber(c) && c >= 0 && c <= 1);
+const isPlainObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const tokenList = THEME_TOKENS.join(', ');
+
+/** The error for `value` under `rule`, or null when it passes */
+function checkRule(rule: Rule, value: unknown): string | null {
+    switch (rule) {
+        case 'count':
+            return Number.isInteger(value) && (value as number) >= 0 ? null : 'expected a whole number ≥ 0';
+        case 'number':
+            return isFiniteNumber(value) ? null : 'expected a number';
+        case 'range':
+            return Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber) && value[0] <= value[1]
+                ? null : 'expected [min, max] with min ≤ max';
+        case 'vec3':
+            return Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber) ? null : 'expected [x, y, z]';
+        case 'color':
+            return isToken(value) ? null : `expected one of ${tokenList}`;
+        case 'colors':
+            return Array.isArray(value) && value.length > 0 && value.every(isToken)
+                ? null : `expected a non-empty list of ${tokenList}`;
+        case 'weighted':
+            return Array.isArray(value) && value.length > 0
+                && value.every(w => isPlainObject(w) && (isToken(w.color) || isRgb(w.color)) && isFiniteNumber(w.weight) && w.weight > 0)
+                ? null : 'expected a non-empty list of { "color": <token or [r, g, b] in 0–1>, "weight": <number > 0> }';
+        case 'shapes':
+            return Array.isArray(value) && value.length > 0 && value.every(s => SHAPE_TYPES.includes(s))
+                ? null : `expected a non-empty list of ${SHAPE_TYPES.join(', ')}`;
+    }
+}
+
+function check(value: unknown, spec: Spec, path: string, errors: string[]) {
+    if (typeof spec === 'string') {
+        const error = checkRule(spec, value);
+        if (error) errors.push(`${path}: ${error}`);
+        return;
+    }
+    if (Array.isArray(spec)) {
+        if (!Array.isArray(value)) {
+            errors.push(`${path}: expected a list`);
+            return;
+        }
+        value.forEach((item, i) => check(item, spec[0], `${path}[${i}]`, errors));
+        return;
+    }
+    if (!isPlainObject(value)) {
+        errors.push(`${path}: expected an object`);
+        return;
+    }
+    Object.entries(spec).forEach(([field, fieldSpec]) => {
+        check(value[field], fieldSpec, path ? `${path}.${field}` : field, errors);
+    });
+    // Usually a typo, which would otherwise be silently ignored
+    Object.keys(value).forEach((field) => {
+        if (!(field in spec)) errors.push(`${path ? `${path}.${field}` : field}: unknown field`);
+    });
+}
+
+/**
+ * Check a complete description (e.g. parsed JSON) against the schema.
+ * Returns human-readable errors keyed by path; an empty array means valid.
+ */
+export function validateSceneDescription(data: unknown): string[] {
+    const errors: string[] = [];
+    check(data, SCHEMA, '', errors);
+    const version = isPlainObject(data) ? data.version : undefined;
+    if (isFiniteNumber(version) && version !== SCENE_DESCRIPTION_VERSION) {
+        errors.unshift(`version: ${version} is not supported (expected ${SCENE_DESCRIPTION_VERSION})`);
+    }
+    return errors;
+}
+
+/** Overlay `overrides` on `defaults`; objects merge field by field, lists replace */
+function merge(defaults: unknown, overrides: unknown): unknown {
+    if (!isPlainObject(defaults) || !isPlainObject(overrides)) {
+        return overrides === undefined ? defaults : overrides;
+    }
+    const merged: Record<string, unknown> = { ...defaults };
+    Object.entries(overrides).forEach(([field, value]) => {
+        merged[field] = merge(defaults[field], value);
+    });
+    return merged;
+}
+
+/**
+ * Fill a partial description in from DEFAULT_SCENE and validate the result.
+ * Invalid descriptions are reported to the console and replaced by the defaults.
+ */
+export function resolveSceneDescription(overrides: unknown): SceneDescription {
+    if (!isPlainObject(overrides)) {
+        console.error('Invalid scene description — expected an object');
+        return structuredClone(DEFAULT_SCENE);
+    }
+    if (overrides.version === undefined) {
+        console.error('Invalid scene description — version: required');
+        return structuredClone(DEFAULT_SCENE);
+    }
+
+    const merged = merge(DEFAULT_SCENE, overrides);
+    const errors = validateSceneDescription(merged);
+    if (errors.length > 0) {
+        errors.forEach(err => console.error(`Invalid scene description — ${err}`));
+        return structuredClone(DEFAULT_SCENE);
+    }
+    // A copy, so tuning it at runtime never touches the defaults
+    return structuredClone(merged) as SceneDescription;
+}
+
+/** The fields of `description` that differ from DEFAULT_SCENE, as a scene.json body */
+export function diffSceneDescription(description: SceneDescription): Partial<SceneDescription> {
+    const diff = (value: unknown, defaults: unknown): unknown => {
+        if (isPlainObject(value) && isPlainObject(defaults)) {
+            const changed = Object.entries(value)
+                .map(([field, v]) => [field, diff(v, defaults[field])] as const)
+                .filter(([, v]) => v !== undefined);
+            return changed.length > 0 ? Object.fromEntries(changed) : undefined;
+        }
+        return JSON.stringify(value) === JSON.stringify(defaults) ? undefined : value;
+    };
+    return { version: SCENE_DESCRIPTION_VERSION, ...(diff(description, DEFAULT_SCENE) as object) };
+}
@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import gsap from 'gsap';
+import { installBrowser, installFrames } from './test-browser';
+import { activeBindings } from './lifecycle';
+import { ticker } from './ticker';
+import { QualityGovernor, type QualityTier } from './quality';
+import { MotionPreference } from './motion';
+import { PortalScene } from './portal';
+import { WorldScene } from './world';
+import { SET_PIECE_IDS } from './set-pieces';
+
+/**
+ * Round-trip leak check for the WebGL scenes: build and destroy each one
+ * several times, rendering frames in between, and make sure no DOM
+ * listeners, ticker subscribers, animation frames or GPU resources survive.
+ * jsdom has no WebGL, so canvases hand three.js a minimal WebGL2 stand-in
+ * that accepts every call (see test-browser.ts).
+ */
+
+const ROUND_TRIPS = 3;
+const FRAMES = 5;
+
+// ─── ROUND TRIPS ───
+
+type Scene = PortalScene | WorldScene;
+
+const SCENES: Record<string, (canvas: HTMLCanvasElement, quality: QualityGovernor, motion: MotionPreference) => Scene> = {
+    portal: (canvas, quality, motion) => {
+        const portal = new PortalScene(canvas, quality, motion);
+        portal.setHotspots([{ id: 'vr', label: 'VR' }, { id: 'game', label: 'Games' }]);
+        return portal;
+    },
+    world: (canvas, quality, motion) => {
+        const world = new WorldScene(canvas, quality, motion);
+        // Set pieces are built lazily; build them all so they are part of the check
+        SET_PIECE_IDS.forEach(id => world.setSetPiece(id));
+        return world;
+    },
+};
+
+describe.each(Object.keys(SCENES))('%s scene', (name) => {
+    let frames: ReturnType<typeof installFrames>;
+
+    beforeEach(() => {
+        installBrowser();
+        frames = installFrames();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    // Low renders straight to the canvas; ultra runs every post-processing pass with MSAA
+    it.each<QualityTier>(['low', 'ultra'])('releases everything it creates on the %s tier', (tier) => {
+        const quality = new QualityGovernor(tier);
+        const motion = new MotionPreference();
+        const bindings = activeBindings();
+        const ticks = ticker.size;
+
+        for (let i = 0; i < ROUND_TRIPS; i++) {
+            const canvas = document.createElement('canvas');
+            document.body.append(canvas);
+            const scene = SCENES[name](canvas, quality, motion);
+            const renderer: THREE.WebGLRenderer = scene['renderer'];
+            frames.step(FRAMES);
+
+            expect(renderer.info.memory.geometries).toBeGreaterThan(0);
+            expect(ticker.size).toBeGreaterThan(ticks);
+
+            scene.destroy();
+            canvas.remove();
+
+            expect(activeBindings()).toBe(bindings);
+            expect(ticker.size).toBe(ticks);
+            expect(gsap.globalTimeline.getChildren()).toHaveLength(0);
+            // gsap keeps its own frame loop awake for a while after the last
+            // tween ends; put it to sleep so only the scenes' frames count
+            gsap.ticker.sleep();
+            expect(frames.pending).toBe(0);
+            expect(renderer.info.memory.geometries).toBe(0);
+            expect(renderer.info.memory.textures).toBe(0);
+            expect(renderer.info.programs?.length ?? 0).toBe(0);
+        }
+    });
+});
@@ -0,0 +1,302 @@
+import * as THREE from 'three';
+import gsap from 'gsap';
+import type { MotionPreference } from './motion';
+import { themed, type ThemeToken } from './theme';
+
+/**
+ * Section-themed set pieces for the world scene.
+ * Each service gets a procedural wireframe prop that is built the first time
+ * it becomes active, animates in, and is disposed again once it has animated
+ * out — so at most two pieces (outgoing + incoming) are alive at any time.
+ */
+
+export type SetPieceId = 'vr' | 'game' | 'realestate' | 'design' | 'animation';
+
+export const SET_PIECE_IDS: SetPieceId[] = ['vr', 'game', 'realestate', 'design', 'animation'];
+
+interface SetPieceDefinition {
+    build(): THREE.Group;
+    /** Per-frame animation; `time` is the scene's motion-scaled clock */
+    update?(group: THREE.Group, time: number): void;
+}
+
+const ANCHOR = new THREE.Vector3(1.5, 1.2, -2);
+
+/** Theme tokens follow theme switches; plain numbers stay fixed */
+function paint<T extends THREE.MeshBasicMaterial | THREE.LineBasicMaterial>(mat: T, color: ThemeToken | number): T {
+    if (typeof color === 'number') mat.color.set(color);
+    else themed(mat, color);
+    return mat;
+}
+
+function wireMaterial(color: ThemeToken | number, opacity: number = 0.35): THREE.MeshBasicMaterial {
+    const mat = paint(new THREE.MeshBasicMaterial({
+        wireframe: true,
+        transparent: true,
+        opacity,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+    }), color);
+    mat.userData.baseOpacity = opacity;
+    return mat;
+}
+
+function edgeLines(geo: THREE.BufferGeometry, color: ThemeToken | number, opacity: number = 0.5): THREE.LineSegments {
+    const mat = paint(new THREE.LineBasicMaterial({ transparent: true, opacity, blending: THREE.AdditiveBlending }), color);
+    mat.userData.baseOpacity = opacity;
+    const lines = new THREE.LineSegments(new THREE.EdgesGeometry(geo), mat);
+    geo.dispose();
+    return lines;
+}
+
+const DEFINITIONS: Record<SetPieceId, SetPieceDefinition> = {
+    // VR headset: visor, two lenses and a head strap
+    vr: {
+        build() {
+            const group = new THREE.Group();
+            group.add(edgeLines(new THREE.BoxGeometry(1.6, 0.8, 0.6, 2, 1, 1), 'primary'));
+
+            [-0.38, 0.38].forEach((x) => {
+                const lens = new THREE.Mesh(new THREE.CylinderGeometry(0.26, 0.26, 0.12, 16), wireMaterial('secondary'));
+                lens.rotation.x = Math.PI / 2;
+                lens.position.set(x, 0, 0.34);
+                group.add(lens);
+            });
+
+            const strap = new THREE.Mesh(new THREE.TorusGeometry(0.85, 0.03, 6, 32, Math.PI), wireMaterial('primary', 0.25));
+            strap.rotation.x = Math.PI / 2;
+            strap.rotation.z = Math.PI;
+            strap.position.z = -0.3;
+            group.add(strap);
+            return group;
+        },
+        update(group, time) {
+            group.rotation.y = Math.sin(time * 0.4) * 0.6;
+            group.position.y = ANCHOR.y + Math.sin(time * 0.8) * 0.1;
+        },
+    },
+
+    // Gamepad: body, grips and face buttons
+    game: {
+        build() {
+            const group = new THREE.Group();
+            group.add(edgeLines(new THREE.BoxGeometry(1.3, 0.45, 0.35), 'accent'));
+
+            [-0.6, 0.6].forEach((x) => {
+                const grip = new THREE.Mesh(new THREE.CapsuleGeometry(0.2, 0.35, 4, 10), wireMaterial('accent', 0.3));
+                grip.position.set(x, -0.2, 0);
+                grip.rotation.z = x > 0 ? 0.5 : -0.5;
+                group.add(grip);
+            });
+
+            const colors: ThemeToken[] = ['primary', 'secondary', 'highlight', 'accent'];
+            colors.forEach((color, i) => {
+                const angle = (i / colors.length) * Math.PI * 2;
+                const button = new THREE.Mesh(new THREE.SphereGeometry(0.06, 8, 8), wireMaterial(color, 0.6));
+                button.position.set(0.35 + Math.cos(angle) * 0.1, Math.sin(angle) * 0.1, 0.2);
+                group.add(button);
+            });
+            return group;
+        },
+        update(group, time) {
+            group.rotation.x = Math.sin(time * 0.6) * 0.3;
+            group.rotation.y = time * 0.3;
+        },
+    },
+
+    // Low-poly tower: stacked floors with a pyramid roof
+    realestate: {
+        build() {
+            const group = new THREE.Group();
+            const floors = 5;
+            for (let i = 0; i < floors; i++) {
+                const width = 1 - i * 0.1;
+                const floor = edgeLines(new THREE.BoxGeometry(width, 0.3, width), 'primary', 0.35 + i * 0.05);
+                floor.position.y = -0.8 + i * 0.32;
+                floor.userData.floorIndex = i;
+                group.add(floor);
+            }
+            const roof = edgeLines(new THREE.ConeGeometry(0.45, 0.5, 4), 'secondary');
+            roof.position.y = -0.8 + floors * 0.32 + 0.1;
+            roof.rotation.y = Math.PI / 4;
+            group.add(roof);
+            return group;
+        },
+        update(group, time) {
+            group.rotation.y = time * 0.25;
+            // Floors breathe slightly out of phase, like a construction scan
+            group.children.forEach((child) => {
+                if (child.userData.floorIndex === undefined) return;
+                const s = 1 + Math.sin(time * 1.2 - child.userData.floorIndex * 0.6) * 0.04;
+                child.scale.set(s, 1, s);
+            });
+        },
+    },
+
+    // Colour wheel and a bezier stroke
+    design: {
+        build() {
+            const group = new THREE.Group();
+            const swatches = 12;
+            for (let i = 0; i < swatches; i++) {
+                const angle = (i / swatches) * Math.PI * 2;
+                const color = new THREE.Color().setHSL(i / swatches, 0.9, 0.6).getHex();
+                const swatch = new THREE.Mesh(new THREE.PlaneGeometry(0.22, 0.22), wireMaterial(color, 0.5));
+                swatch.position.set(Math.cos(angle) * 0.8, Math.sin(angle) * 0.8, 0);
+                swatch.rotation.z = angle;
+                group.add(swatch);
+            }
+            const curve = new THREE.CubicBezierCurve3(
+                new THREE.Vector3(-0.6, -0.4, 0),
+                new THREE.Vector3(-0.2, 0.8, 0.2),
+                new THREE.Vector3(0.2, -0.8, -0.2),
+                new THREE.Vector3(0.6, 0.4, 0),
+            );
+            group.add(new THREE.Mesh(new THREE.TubeGeometry(curve, 48, 0.025, 6), wireMaterial(0xffffff, 0.4)));
+            return group;
+        },
+        update(group, time) {
+            group.rotation.z = time * 0.2;
+            group.rotation.y = Math.sin(time * 0.5) * 0.4;
+        },
+    },
+
+    // Motion-path rig: a spline, its keyframe markers, and a block riding it
+    animation: {
+        build() {
+            const group = new THREE.Group();
+            const path = new THREE.CatmullRomCurve3([
+                new THREE.Vector3(-1, -0.4, 0),
+                new THREE.Vector3(-0.4, 0.5, 0.3),
+                new THREE.Vector3(0.3, -0.2, -0.3),
+                new THREE.Vector3(1, 0.4, 0),
+            ], true);
+            group.add(new THREE.Mesh(new THREE.TubeGeometry(path, 80, 0.015, 4, true), wireMaterial('secondary', 0.4)));
+
+            path.points.forEach((p) => {
+                const key = new THREE.Mesh(new THREE.OctahedronGeometry(0.07, 0), wireMaterial('highlight', 0.7));
+                key.position.copy(p);
+                group.add(key);
+            });
+
+            const rider = new THREE.Mesh(new THREE.BoxGeometry(0.18, 0.18, 0.18), wireMaterial('accent', 0.8));
+            rider.userData.path = path;
+            group.add(rider);
+            return group;
+        },
+        update(group, time) {
+            group.children.forEach((child) => {
+                const path = child.userData.path as THREE.CatmullRomCurve3 | undefined;
+                if (!path) return;
+                const t = (time * 0.12) % 1;
+                path.getPointAt(t, child.position);
+                child.lookAt(group.localToWorld(path.getPointAt((t + 0.01) % 1)));
+            });
+            group.rotation.y = Math.sin(time * 0.3) * 0.3;
+        },
+    },
+};
+
+function setOpacity(group: THREE.Group, fade: number) {
+    group.traverse((obj) => {
+        const mat = (obj as THREE.Mesh).material as THREE.Material | undefined;
+        if (mat && mat.userData.baseOpacity !== undefined) mat.opacity = mat.userData.baseOpacity * fade;
+    });
+}
+
+function disposeGroup(group: THREE.Group) {
+    group.traverse((obj) => {
+        if ((obj as THREE.Mesh).geometry) (obj as THREE.Mesh).geometry.dispose();
+        const mat = (obj as THREE.Mesh).material;
+        if (Array.isArray(mat)) mat.forEach(m => m.dispose());
+        else if (mat) mat.dispose();
+    });
+}
+
+interface LivePiece {
+    id: SetPieceId;
+    group: THREE.Group;
+    state: { fade: number };
+    tween: gsap.core.Tween | null;
+}
+
+export class SetPieceManager {
+    private live: LivePiece[] = [];
+    private activeId: SetPieceId | null = null;
+
+    constructor(private scene: THREE.Scene, private motion: MotionPreference) { }
+
+    get active(): SetPieceId | null {
+        return this.activeId;
+    }
+
+    /** Bring in the piece for `id` and send the current one out; null clears */
+    public activate(id: SetPieceId | null) {
+        if (id === this.activeId) return;
+        this.activeId = id;
+
+        this.live.forEach((piece) => {
+            if (piece.id !== id) this.animateOut(piece);
+        });
+
+        if (!id) return;
+        const existing = this.live.find(p => p.id === id);
+        if (existing) {
+            this.animateIn(existing);
+            return;
+        }
+
+        const group = DEFINITIONS[id].build();
+        group.position.copy(ANCHOR);
+        const piece: LivePiece = { id, group, state: { fade: 0 }, tween: null };
+        setOpacity(group, 0);
+        group.scale.setScalar(0.6);
+        this.scene.add(group);
+        this.live.push(piece);
+        this.animateIn(piece);
+    }
+
+    public update(time: number) {
+        this.live.forEach((piece) => DEFINITIONS[piece.id].update?.(piece.group, time));
+    }
+
+    public dispose() {
+        this.live.forEach((piece) => {
+            piece.tween?.kill();
+            this.scene.remove(piece.group);
+            disposeGroup(piece.group);
+        });
+        this.live = [];
+        this.activeId = null;
+    }
+
+    private animateIn(piece: LivePiece) {
+        piece.tween?.kill();
+        const duration = this.motion.reduced ? 0.4 : 1.2;
+        piece.tween = gsap.to(piece.state, {
+            fade: 1,
+            duration,
+            ease: 'power2.out',
+            onUpdate: () => {
+                setOpacity(piece.group, piece.state.fade);
+                if (!this.motion.reduced) piece.group.scale.setScalar(0.6 + piece.state.fade * 0.4);
+                else piece.group.scale.setScalar(1);
+            },
+        });
+    }
+
+    private animateOut(piece: LivePiece) {
+        piece.tween?.kill();
+        piece.tween = gsap.to(piece.state, {
+            fade: 0,
+            duration: this.motion.reduced ? 0.3 : 0.8,
+            ease: 'power2.in',
+            onUpdate: () => setOpacity(piece.group, piece.state.fade),
+            onComplete: () => {
+                this.scene.remove(piece.group);
+                disposeGroup(piece.group);
+                this.live = this.live.filter(p => p !== piece);
+            },
+        });
+    }
+}
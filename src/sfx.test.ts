@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { OfflineAudioContext } from 'web-audio-engine';
+import { measureSound, renderSound, SOUND_CATALOGUE, type SoundName } from './sfx';
+
+/**
+ * Offline renders of every catalogue sound, through web-audio-engine's
+ * OfflineAudioContext since Node has no Web Audio of its own.
+ */
+
+const createContext = (channels: number, length: number, sampleRate: number) =>
+    new OfflineAudioContext(channels, length, sampleRate) as globalThis.OfflineAudioContext;
+
+// Loudest each sound may get. UI blips stay quiet under the music; the
+// transition whooshes are allowed more, but nothing comes near clipping.
+const PEAK_CEILING: Record<SoundName, number> = {
+    hover: 0.06,
+    click: 0.07,
+    success: 0.1,
+    error: 0.1,
+    whoosh: 0.3,
+    'whoosh-reverse': 0.3,
+    'section-change': 0.06,
+};
+
+// Anything quieter than this would go unheard over the drone
+const PEAK_FLOOR = 0.01;
+
+describe.each(Object.keys(SOUND_CATALOGUE) as SoundName[])('%s', (name) => {
+    const recipe = SOUND_CATALOGUE[name];
+
+    it('renders for its declared duration and dies away inside it', async () => {
+        const sound = measureSound(await renderSound(name, { createContext }));
+        expect(sound.duration).toBeCloseTo(recipe.duration, 3);
+        expect(sound.audibleUntil).toBeGreaterThan(0);
+        expect(sound.audibleUntil).toBeLessThan(recipe.duration);
+    });
+
+    it('peaks within its level range', async () => {
+        const { peak } = measureSound(await renderSound(name, { createContext }));
+        expect(peak).toBeGreaterThan(PEAK_FLOOR);
+        expect(peak).toBeLessThanOrEqual(PEAK_CEILING[name]);
+    });
+});
+
+it('keeps length and level when detuned', async () => {
+    const plain = measureSound(await renderSound('section-change', { createContext }));
+    const detuned = measureSound(await renderSound('section-change', { createContext, detune: 12 }));
+    expect(detuned.duration).toBe(plain.duration);
+    expect(detuned.peak).toBeGreaterThan(PEAK_FLOOR);
+    expect(detuned.peak).toBeLessThanOrEqual(PEAK_CEILING['section-change']);
+});
@@ -0,0 +1,264 @@
+/**
+ * Named procedural sound effects.
+ * Each recipe builds its own short node graph on any BaseAudioContext, so the
+ * same code plays live through AudioSystem and renders offline through
+ * `renderSound` (e.g. to check length and loudness from a test). SfxPlayer
+ * adds per-sound cooldowns, polyphony limits and random pitch variation.
+ */
+
+export type SoundName = 'hover' | 'click' | 'success' | 'error' | 'whoosh' | 'whoosh-reverse' | 'section-change';
+
+export interface SoundRecipe {
+    /** Seconds from start until the sound has fully died away */
+    duration: number;
+    /** Seconds after a start during which the same sound is dropped */
+    cooldown: number;
+    /** Most instances of this sound that may overlap */
+    polyphony: number;
+    /** Random pitch spread, ± semitones */
+    pitchVariation: number;
+    /** Schedule the sound at `when`; `pitch` is a frequency ratio (1 = as written) */
+    build(ctx: BaseAudioContext, output: AudioNode, when: number, pitch: number): void;
+}
+
+export interface PlayOptions {
+    /** Fixed pitch offset in semitones, on top of the random variation */
+    detune?: number;
+}
+
+/** An oscillator through a gain envelope; returns the gain for further shaping */
+function tone(ctx: BaseAudioContext, output: AudioNode, type: OscillatorType, when: number, stop: number): { osc: OscillatorNode; gain: GainNode } {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = type;
+    osc.connect(gain);
+    gain.connect(output);
+    osc.start(when);
+    osc.stop(stop);
+    return { osc, gain };
+}
+
+export const SOUND_CATALOGUE: Record<SoundName, SoundRecipe> = {
+    // Subtle UI hover blip
+    hover: {
+        duration: 0.2,
+        cooldown: 0.06,
+        polyphony: 3,
+        pitchVariation: 1.5,
+        build(ctx, output, when, pitch) {
+            const { osc, gain } = tone(ctx, output, 'sine', when, when + 0.2);
+            osc.frequency.setValueAtTime(800 * pitch, when);
+            osc.frequency.exponentialRampToValueAtTime(1200 * pitch, when + 0.05);
+            gain.gain.setValueAtTime(0.05, when);
+            gain.gain.exponentialRampToValueAtTime(0.001, when + 0.15);
+        },
+    },
+
+    // Short tick for buttons and links
+    click: {
+        duration: 0.1,
+        cooldown: 0.03,
+        polyphony: 4,
+        pitchVariation: 1,
+        build(ctx, output, when, pitch) {
+            const { osc, gain } = tone(ctx, output, 'triangle', when, when + 0.1);
+            osc.frequency.setValueAtTime(1400 * pitch, when);
+            osc.frequency.exponentialRampToValueAtTime(600 * pitch, when + 0.03);
+            gain.gain.setValueAtTime(0.06, when);
+            gain.gain.exponentialRampToValueAtTime(0.001, when + 0.08);
+        },
+    },
+
+    // Rising fourth, E5 → A5
+    success: {
+        duration: 0.55,
+        cooldown: 0.5,
+        polyphony: 1,
+        pitchVariation: 0,
+        build(ctx, output, when, pitch) {
+            [659.25, 880].forEach((freq, i) => {
+                const start = when + i * 0.12;
+                const { osc, gain } = tone(ctx, output, 'sine', start, start + 0.42);
+                osc.frequency.value = freq * pitch;
+                gain.gain.setValueAtTime(0, start);
+                gain.gain.linearRampToValueAtTime(0.07, start + 0.01);
+                gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+            });
+        },
+    },
+
+    // Falling minor third through a dull lowpass
+    error: {
+        duration: 0.45,
+        cooldown: 0.5,
+        polyphony: 1,
+        pitchVariation: 0,
+        build(ctx, output, when, pitch) {
+            const filter = ctx.createBiquadFilter();
+            filter.type = 'lowpass';
+            filter.frequency.value = 1200;
+            filter.connect(output);
+            [329.63, 277.18].forEach((freq, i) => {
+                const start = when + i * 0.14;
+                const { osc, gain } = tone(ctx, filter, 'square', start, start + 0.3);
+                osc.frequency.value = freq * pitch;
+                gain.gain.setValueAtTime(0, start);
+                gain.gain.linearRampToValueAtTime(0.04, start + 0.01);
+                gain.gain.exponentialRampToValueAtTime(0.001, start + 0.28);
+            });
+        },
+    },
+
+    // Portal → world: sweep up through the flash, then settle
+    whoosh: {
+        duration: 2,
+        cooldown: 0.5,
+        polyphony: 1,
+        pitchVariation: 1,
+        build(ctx, output, when, pitch) {
+            const filter = ctx.createBiquadFilter();
+            filter.type = 'lowpass';
+            filter.frequency.setValueAtTime(500, when);
+            filter.frequency.exponentialRampToValueAtTime(5000, when + 0.3);
+            filter.frequency.exponentialRampToValueAtTime(200, when + 1.5);
+            filter.Q.value = 5;
+            filter.connect(output);
+
+            const { osc, gain } = tone(ctx, filter, 'sawtooth', when, when + 2);
+            osc.frequency.setValueAtTime(200 * pitch, when);
+            osc.frequency.exponentialRampToValueAtTime(2000 * pitch, when + 0.5);
+            osc.frequency.exponentialRampToValueAtTime(100 * pitch, when + 1.5);
+            gain.gain.setValueAtTime(0, when);
+            gain.gain.linearRampToValueAtTime(0.15, when + 0.1);
+            gain.gain.linearRampToValueAtTime(0, when + 1.5);
+        },
+    },
+
+    // World → portal: the whoosh played backwards, building into the zoom-out
+    'whoosh-reverse': {
+        duration: 1.6,
+        cooldown: 0.5,
+        polyphony: 1,
+        pitchVariation: 1,
+        build(ctx, output, when, pitch) {
+            const filter = ctx.createBiquadFilter();
+            filter.type = 'lowpass';
+            filter.frequency.setValueAtTime(200, when);
+            filter.frequency.exponentialRampToValueAtTime(5000, when + 1.2);
+            filter.frequency.exponentialRampToValueAtTime(500, when + 1.5);
+            filter.Q.value = 5;
+            filter.connect(output);
+
+            const { osc, gain } = tone(ctx, filter, 'sawtooth', when, when + 1.6);
+            osc.frequency.setValueAtTime(100 * pitch, when);
+            osc.frequency.exponentialRampToValueAtTime(2000 * pitch, when + 1);
+            osc.frequency.exponentialRampToValueAtTime(200 * pitch, when + 1.5);
+            gain.gain.setValueAtTime(0, when);
+            gain.gain.linearRampToValueAtTime(0.15, when + 1.2);
+            gain.gain.linearRampToValueAtTime(0, when + 1.5);
+        },
+    },
+
+    // Soft bell with an octave partial; detuned per section by the caller
+    'section-change': {
+        duration: 1,
+        cooldown: 0.4,
+        polyphony: 2,
+        pitchVariation: 0,
+        build(ctx, output, when, pitch) {
+            [[523.25, 0.04], [1046.5, 0.015]].forEach(([freq, level]) => {
+                const { osc, gain } = tone(ctx, output, 'sine', when, when + 1);
+                osc.frequency.value = freq * pitch;
+                gain.gain.setValueAtTime(0, when);
+                gain.gain.linearRampToValueAtTime(level, when + 0.01);
+                gain.gain.exponentialRampToValueAtTime(0.0005, when + 0.95);
+            });
+        },
+    },
+};
+
+/** Frequency ratio for `semitones` */
+function semitoneRatio(semitones: number): number {
+    return Math.pow(2, semitones / 12);
+}
+
+/**
+ * Plays catalogue sounds live with rate limiting. Time comes from the
+ * context's clock, and `random` can be swapped for a seeded source.
+ */
+export class SfxPlayer {
+    private lastStart: Map<SoundName, number> = new Map();
+    // End times of the instances of each sound still sounding
+    private voices: Map<SoundName, number[]> = new Map();
+
+    constructor(private random: () => number = Math.random) { }
+
+    /** Start `name` now; false if it was dropped by its cooldown or polyphony limit */
+    public play(name: SoundName, ctx: BaseAudioContext, output: AudioNode, options: PlayOptions = {}): boolean {
+        const recipe = SOUND_CATALOGUE[name];
+        const now = ctx.currentTime;
+
+        const last = this.lastStart.get(name);
+        if (last !== undefined && now - last < recipe.cooldown) return false;
+
+        const voices = (this.voices.get(name) ?? []).filter(end => end > now);
+        if (voices.length >= recipe.polyphony) {
+            this.voices.set(name, voices);
+            return false;
+        }
+
+        const spread = (this.random() * 2 - 1) * recipe.pitchVariation;
+        recipe.build(ctx, output, now, semitoneRatio((options.detune ?? 0) + spread));
+        voices.push(now + recipe.duration);
+        this.voices.set(name, voices);
+        this.lastStart.set(name, now);
+        return true;
+    }
+}
+
+// ─── OFFLINE RENDERING ───
+
+export interface RenderOptions extends PlayOptions {
+    sampleRate?: number;
+    /** Supply an OfflineAudioContext implementation outside the browser */
+    createContext?: (channels: number, length: number, sampleRate: number) => OfflineAudioContext;
+}
+
+export interface SoundMeasurement {
+    /** Rendered length in seconds */
+    duration: number;
+    /** Largest absolute sample value */
+    peak: number;
+    /** Last moment the signal is above -60 dBFS, in seconds */
+    audibleUntil: number;
+}
+
+/** Render one catalogue sound, without variation, into a mono buffer */
+export function renderSound(name: SoundName, options: RenderOptions = {}): Promise<AudioBuffer> {
+    const recipe = SOUND_CATALOGUE[name];
+    const sampleRate = options.sampleRate ?? 44100;
+    const length = Math.ceil(recipe.duration * sampleRate);
+    const create = options.createContext ?? ((channels, frames, rate) => new OfflineAudioContext(channels, frames, rate));
+    const ctx = create(1, length, sampleRate);
+    recipe.build(ctx, ctx.destination, 0, semitoneRatio(options.detune ?? 0));
+    return ctx.startRendering();
+}
+
+export function measureSound(buffer: AudioBuffer): SoundMeasurement {
+    const threshold = 0.001;
+    let peak = 0;
+    let lastAudible = -1;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) {
+            const level = Math.abs(data[i]);
+            if (level > peak) peak = level;
+            if (level > threshold && i > lastAudible) lastAudible = i;
+        }
+    }
+    return {
+        duration: buffer.duration,
+        peak,
+        audibleUntil: (lastAudible + 1) / buffer.sampleRate,
+    };
+}
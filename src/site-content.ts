@@ -0,0 +1,128 @@
+import type { SiteContent } from './content';
+
+/**
+ * Site copy for the world sections.
+ * Edit here — index.html only holds the empty containers.
+ */
+export const siteContent: SiteContent = {
+    services: [
+        {
+            id: 'vr',
+            icon: '🥽',
+            title: 'VR & AI Simulators',
+            description: 'Immersive training environments powered by artificial intelligence. Real-time physics, adaptive difficulty, and neural-responsive feedback systems for next-generation simulation.',
+            tags: ['Virtual Reality', 'Machine Learning', 'Neural Networks'],
+        },
+        {
+            id: 'game',
+            icon: '🎮',
+            title: 'Game Development',
+            description: 'AAA-quality game experiences built with cutting-edge engines. From concept art to final render — every polygon matters, every frame tells a story.',
+            tags: ['Unreal Engine', 'Unity', 'Real-time Rendering'],
+        },
+        {
+            id: 'realestate',
+            icon: '🏗️',
+            title: 'Real Estate 3D Modeling',
+            description: 'Photorealistic architectural visualization with dynamic lighting. Walk through unbuilt spaces. Change materials, time of day, and furnishings in real-time.',
+            tags: ['3D Architecture', 'BIM', 'Virtual Tours'],
+        },
+        {
+            id: 'design',
+            icon: '🎨',
+            title: 'Graphic Designing',
+            description: 'Visual identities that transcend screens. Brand systems, motion graphics, and digital art that lives at the intersection of creativity and technology.',
+            tags: ['Brand Identity', 'Motion Graphics', 'UI/UX'],
+        },
+        {
+            id: 'animation',
+            icon: '🎬',
+            title: 'Animation Studio',
+            description: 'Character animation, motion capture, and cinematic sequences. From keyframe to mocap — we bring digital characters to life with soul and precision.',
+            tags: ['Motion Capture', 'Character Rigging', 'Cinematics'],
+        },
+    ],
+
+    portfolio: [
+        {
+            id: 'neurosim',
+            icon: '🌌',
+            category: 'VR Simulation',
+            title: 'NeuroSim Training Platform',
+            description: 'AI-driven VR training for medical professionals. 40% improvement in surgical accuracy.',
+        },
+        {
+            id: 'aethon',
+            icon: '⚔️',
+            category: 'Game Development',
+            title: 'Chronicles of Aethon',
+            description: 'Open-world RPG with procedural environments and ray tracing. 2M+ downloads in 3 months.',
+        },
+        {
+            id: 'skyline',
+            icon: '🏛️',
+            category: '3D Architecture',
+            title: 'Skyline Residences',
+            description: 'Photorealistic virtual tours. 85% of luxury units sold before construction began.',
+            model: '/models/skyline.glb',
+            poster: '/models/skyline.png',
+        },
+        {
+            id: 'sentient',
+            icon: '🎭',
+            category: 'Animation',
+            title: 'Sentient — Short Film',
+            description: 'Award-winning animated short exploring AI consciousness. Official selection at 12 festivals.',
+        },
+        {
+            id: 'nexgen',
+            icon: '🔮',
+            category: 'Brand & Design',
+            title: 'NexGen Corporate Identity',
+            description: 'Complete brand overhaul for a Fortune 500 tech company. 3D logo system and holographic packaging.',
+        },
+        {
+            id: 'bioverse',
+            icon: '🧬',
+            category: 'VR Research',
+            title: 'BioVerse Lab',
+            description: 'Immersive molecular visualization for biotech. Used by 30+ universities worldwide.',
+        },
+    ],
+
+    timeline: [
+        { year: '2019', title: 'Founded', description: 'Gallant Solutions established with a vision to revolutionize digital experiences.' },
+        { year: '2020', title: 'VR Division Launch', description: 'Expanded into VR/AI simulation with enterprise training contracts.' },
+        { year: '2021', title: 'Game Studio Opens', description: 'First AAA-quality game project delivered. Unreal Engine partnership formed.' },
+        { year: '2023', title: 'Global Expansion', description: 'Operations expanded to serve clients across 15+ countries.' },
+        { year: '2025', title: 'The New World', description: 'Launched our most ambitious platform — merging all divisions into one digital universe.' },
+    ],
+
+    team: [
+        { id: 'alex', name: 'Alex Chen', role: 'Founder & CEO', bio: 'Visionary leader with 15 years in immersive tech. Former lead at a major XR lab.' },
+        { id: 'sara', name: 'Sara Khan', role: 'Creative Director', bio: 'Award-winning designer merging art with technology. Specialist in spatial design.' },
+        { id: 'marcus', name: 'Marcus Rivera', role: 'CTO', bio: 'Full-stack engineer and AI researcher. Architect of our simulation framework.' },
+        { id: 'luna', name: 'Luna Park', role: 'Head of Animation', bio: 'Cinematic storyteller. 10+ years in AAA game cinematics and motion capture.' },
+    ],
+
+    testimonials: [
+        {
+            id: 'rachel',
+            quote: 'Gallant Solutions transformed our training program. The VR simulator they built reduced onboarding time by 60% and our team engagement went through the roof.',
+            author: 'Rachel Torres',
+            role: 'VP of Operations, MedCore Inc.',
+        },
+        {
+            id: 'james',
+            quote: 'The 3D architectural walkthroughs were indistinguishable from reality. Our buyers made purchasing decisions from another continent with complete confidence.',
+            author: 'James Whitfield',
+            role: 'CEO, Apex Properties',
+        },
+        {
+            id: 'kim',
+            quote: 'Working with Gallant felt like collaborating with a team from the future. Their creative vision and technical execution are in a league of their own.',
+            author: 'Kim Nakamura',
+            role: 'Creative Lead, Zenith Studios',
+        },
+    ],
+};
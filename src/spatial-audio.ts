@@ -0,0 +1,228 @@
+import * as THREE from 'three';
+import type { Disposable } from './lifecycle';
+
+/**
+ * Positional audio for scene objects.
+ * Emitters are attached to Object3Ds and each one plays a quiet procedural
+ * tone through an HRTF PannerNode. The Web Audio listener follows the scene
+ * camera, so mouse drift and scrolling move the sounds around the listener.
+ * Only the nearest few emitters play at once; the rest stay silent.
+ */
+
+/** The audio graph to play into; null while sound is off or still blocked */
+export interface SpatialBus {
+    ctx: AudioContext;
+    output: AudioNode;
+}
+
+export interface SpatialHost {
+    spatialBus(): SpatialBus | null;
+}
+
+export interface EmitterVoice {
+    type: OscillatorType;
+    frequency: number;
+    /** Peak level before distance falloff */
+    gain: number;
+    /** Tremolo rate in Hz; 0 for a steady tone */
+    tremolo: number;
+}
+
+interface Emitter {
+    object: THREE.Object3D;
+    voice: EmitterVoice;
+    playing: PlayingVoice | null;
+}
+
+interface PlayingVoice {
+    panner: PannerNode;
+    gain: GainNode;
+    nodes: OscillatorNode[];
+}
+
+export const DEFAULT_MAX_EMITTERS = 4;
+// Seconds between choosing which emitters are nearest
+const RESELECT_INTERVAL = 0.5;
+const FADE = 0.4;
+
+const position = new THREE.Vector3();
+const forward = new THREE.Vector3();
+const up = new THREE.Vector3();
+
+/** Glide an x/y/z AudioParam triple to `v` */
+function setParams(x: AudioParam, y: AudioParam, z: AudioParam, v: THREE.Vector3, time: number) {
+    x.setTargetAtTime(v.x, time, 0.05);
+    y.setTargetAtTime(v.y, time, 0.05);
+    z.setTargetAtTime(v.z, time, 0.05);
+}
+
+function isVisible(object: THREE.Object3D): boolean {
+    for (let o: THREE.Object3D | null = object; o; o = o.parent) {
+        if (!o.visible) return false;
+    }
+    return true;
+}
+
+export class SpatialAudio implements Disposable {
+    private emitters: Emitter[] = [];
+    private bus: SpatialBus | null = null;
+    private sinceSelect: number = Infinity;
+
+    constructor(
+        private host: SpatialHost,
+        private camera: THREE.Camera,
+        private maxEmitters: number = DEFAULT_MAX_EMITTERS,
+    ) { }
+
+    /** Emitters currently making sound, at most `maxEmitters` */
+    get activeCount(): number {
+        return this.emitters.filter(e => e.playing).length;
+    }
+
+    public add(object: THREE.Object3D, voice: EmitterVoice) {
+        this.emitters.push({ object, voice, playing: null });
+    }
+
+    public setMaxEmitters(max: number) {
+        this.maxEmitters = max;
+        this.sinceSelect = Infinity;
+    }
+
+    /** Per frame, after the camera and objects have moved */
+    public update(delta: number) {
+        const bus = this.host.spatialBus();
+        if (bus !== this.bus) {
+            // Sound switched off, or a new context: start over on the new graph
+            this.emitters.forEach(e => this.silence(e));
+            this.bus = bus;
+            this.sinceSelect = Infinity;
+        }
+        if (!bus) return;
+
+        const time = bus.ctx.currentTime;
+        this.camera.updateMatrixWorld();
+        this.camera.getWorldPosition(position);
+        this.camera.getWorldDirection(forward);
+        up.set(0, 1, 0).applyQuaternion(this.camera.quaternion);
+
+        const listener = bus.ctx.listener;
+        if (listener.positionX) {
+            setParams(listener.positionX, listener.positionY, listener.positionZ, position, time);
+            setParams(listener.forwardX, listener.forwardY, listener.forwardZ, forward, time);
+            setParams(listener.upX, listener.upY, listener.upZ, up, time);
+        } else {
+            // Firefox only has the older setters
+            listener.setPosition(position.x, position.y, position.z);
+            listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+        }
+
+        this.sinceSelect += delta;
+        if (this.sinceSelect >= RESELECT_INTERVAL) {
+            this.sinceSelect = 0;
+            this.select(bus, position);
+        }
+
+        this.emitters.forEach((emitter) => {
+            if (!emitter.playing) return;
+            const { panner } = emitter.playing;
+            emitter.object.getWorldPosition(position);
+            if (panner.positionX) {
+                setParams(panner.positionX, panner.positionY, panner.positionZ, position, time);
+            } else {
+                panner.setPosition(position.x, position.y, position.z);
+            }
+        });
+    }
+
+    public destroy() {
+        this.emitters.forEach(e => this.silence(e));
+        this.emitters = [];
+        this.bus = null;
+    }
+
+    /** Play the nearest visible emitters and fade out the rest */
+    private select(bus: SpatialBus, listenerPosition: THREE.Vector3) {
+        const ranked = this.emitters
+            .filter(e => isVisible(e.object))
+            .map(e => ({ emitter: e, distance: e.object.getWorldPosition(new THREE.Vector3()).distanceToSquared(listenerPosition) }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, this.maxEmitters)
+            .map(r => r.emitter);
+
+        this.emitters.forEach((emitter) => {
+            const wanted = ranked.includes(emitter);
+            if (wanted && !emitter.playing) emitter.playing = this.play(bus, emitter);
+            if (!wanted && emitter.playing) this.silence(emitter);
+        });
+    }
+
+    private play(bus: SpatialBus, emitter: Emitter): PlayingVoice {
+        const { ctx } = bus;
+        const now = ctx.currentTime;
+        const { voice } = emitter;
+
+        const panner = ctx.createPanner();
+        panner.panningModel = 'HRTF';
+        panner.distanceModel = 'inverse';
+        panner.refDistance = 3;
+        panner.maxDistance = 60;
+        panner.rolloffFactor = 1.5;
+        emitter.object.getWorldPosition(position);
+        if (panner.positionX) {
+            panner.positionX.value = position.x;
+            panner.positionY.value = position.y;
+            panner.positionZ.value = position.z;
+        } else {
+            panner.setPosition(position.x, position.y, position.z);
+        }
+        panner.connect(bus.output);
+
+        const gain = ctx.createGain();
+        gain.gain.setValueAtTime(0, now);
+        gain.gain.linearRampToValueAtTime(voice.gain, now + FADE);
+        gain.connect(panner);
+
+        const osc = ctx.createOscillator();
+        osc.type = voice.type;
+        osc.frequency.value = voice.frequency;
+        const nodes = [osc];
+
+        if (voice.tremolo > 0) {
+            // Amplitude wobble between ~50% and 100% of the voice level
+            const tremolo = ctx.createGain();
+            tremolo.gain.value = 0.75;
+            const lfo = ctx.createOscillator();
+            const depth = ctx.createGain();
+            lfo.frequency.value = voice.tremolo;
+            depth.gain.value = 0.25;
+            lfo.connect(depth);
+            depth.connect(tremolo.gain);
+            osc.connect(tremolo);
+            tremolo.connect(gain);
+            lfo.start(now);
+            nodes.push(lfo);
+        } else {
+            osc.connect(gain);
+        }
+        osc.start(now);
+
+        return { panner, gain, nodes };
+    }
+
+    /** Fade an emitter out and release its nodes */
+    private silence(emitter: Emitter) {
+        const playing = emitter.playing;
+        if (!playing) return;
+        emitter.playing = null;
+
+        const ctx = playing.gain.context;
+        const end = ctx.currentTime + FADE;
+        playing.gain.gain.cancelScheduledValues(ctx.currentTime);
+        playing.gain.gain.setValueAtTime(playing.gain.gain.value, ctx.currentTime);
+        playing.gain.gain.linearRampToValueAtTime(0, end);
+        playing.nodes.forEach(node => {
+            try { node.stop(end + 0.05); } catch (e) { }
+        });
+        playing.nodes[0].onended = () => playing.panner.disconnect();
+    }
+}
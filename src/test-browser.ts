@@ -0,0 +1,108 @@
+import { vi } from 'vitest';
+
+/**
+ * Browser pieces jsdom lacks, for tests that build WebGL scenes.
+ * Canvases hand three.js a minimal WebGL2 stand-in that accepts every call;
+ * renderer.info still counts what three allocates.
+ */
+
+const PARAMETERS: Record<string, unknown> = {
+    VERSION: 'WebGL 2.0',
+    SHADING_LANGUAGE_VERSION: 'WebGL GLSL ES 3.00',
+    SCISSOR_BOX: new Int32Array([0, 0, 300, 150]),
+    VIEWPORT: new Int32Array([0, 0, 300, 150]),
+    MAX_SAMPLES: 4,
+    SAMPLES: 0,
+    UNPACK_ROW_LENGTH: 0,
+    UNPACK_SKIP_PIXELS: 0,
+    UNPACK_SKIP_ROWS: 0,
+};
+
+// Extensions three.js relies on for float render targets; the rest report unsupported
+const EXTENSIONS = ['EXT_color_buffer_float', 'EXT_color_buffer_half_float', 'OES_texture_float_linear', 'EXT_float_blend'];
+
+/** A WebGL2 context that accepts every call and reports a capable GPU */
+function createFakeWebGL(canvas: HTMLCanvasElement): WebGL2RenderingContext {
+    const constants = new Map<string, number>([['NO_ERROR', 0]]);
+    const constant = (name: string) => {
+        if (!constants.has(name)) constants.set(name, 0x1000 + constants.size);
+        return constants.get(name)!;
+    };
+    const nameOf = (value: number) => [...constants].find(([, v]) => v === value)?.[0] ?? '';
+
+    const methods: Record<string, unknown> = {
+        canvas,
+        drawingBufferWidth: canvas.width,
+        drawingBufferHeight: canvas.height,
+        getContextAttributes: () => ({ alpha: true, antialias: false, depth: true, stencil: false, premultipliedAlpha: true, preserveDrawingBuffer: false }),
+        getExtension: (name: string) => (EXTENSIONS.includes(name) ? {} : null),
+        getSupportedExtensions: () => EXTENSIONS,
+        getParameter: (pname: number) => PARAMETERS[nameOf(pname)] ?? 16,
+        getShaderPrecisionFormat: () => ({ rangeMin: 127, rangeMax: 127, precision: 23 }),
+        getShaderParameter: () => true,
+        getProgramParameter: (_program: unknown, pname: number) => (nameOf(pname) === 'LINK_STATUS' ? true : 0),
+        getShaderInfoLog: () => '',
+        getProgramInfoLog: () => '',
+        getUniformLocation: () => null,
+        getAttribLocation: () => -1,
+        getError: () => 0,
+        checkFramebufferStatus: () => constant('FRAMEBUFFER_COMPLETE'),
+        isContextLost: () => false,
+    };
+
+    return new Proxy(methods, {
+        get(target, prop) {
+            if (typeof prop !== 'string') return undefined;
+            if (prop in target) return target[prop];
+            if (/^[A-Z0-9_]+$/.test(prop)) return constant(prop);
+            // createBuffer, bindTexture, drawArrays, …: hand back a fresh handle
+            return () => ({});
+        },
+    }) as unknown as WebGL2RenderingContext;
+}
+
+/** requestAnimationFrame driven by hand, so the test can count outstanding handles */
+export function installFrames() {
+    const pending = new Map<number, FrameRequestCallback>();
+    let nextId = 1;
+    let now = 0;
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+        pending.set(nextId, callback);
+        return nextId++;
+    });
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => pending.delete(id));
+    return {
+        get pending() {
+            return pending.size;
+        },
+        step(count: number) {
+            for (let i = 0; i < count; i++) {
+                now += 1000 / 60;
+                const callbacks = [...pending.values()];
+                pending.clear();
+                callbacks.forEach(cb => cb(now));
+            }
+        },
+    };
+}
+
+class FakeIntersectionObserver {
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+    takeRecords() { return []; }
+}
+
+/** IntersectionObserver, matchMedia and WebGL2 canvases */
+export function installBrowser() {
+    vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+    vi.stubGlobal('matchMedia', (query: string) => ({
+        matches: false,
+        media: query,
+        addEventListener() { },
+        removeEventListener() { },
+    }));
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement, kind: string) {
+        return kind === 'webgl2' ? createFakeWebGL(this) : null;
+    } as typeof HTMLCanvasElement.prototype.getContext);
+}
@@ -0,0 +1,226 @@
+import * as THREE from 'three';
+import gsap from 'gsap';
+
+/**
+ * Design tokens shared by the stylesheet and both 3D scenes.
+ * A palette is a handful of named colours. The active one is written to CSS
+ * custom properties and kept in live THREE.Color objects that shader uniforms
+ * hold directly, so switching theme recolours the page and scenes together.
+ */
+
+export type ThemeToken = 'primary' | 'secondary' | 'accent' | 'highlight' | 'warm' | 'ambient' | 'background' | 'text';
+
+export type ThemePalette = Record<ThemeToken, number>;
+
+export type ThemeName = 'brand' | 'high-contrast' | 'client';
+
+export const THEMES: Record<ThemeName, ThemePalette> = {
+    brand: {
+        primary: 0x00d4ff,
+        secondary: 0xa855f7,
+        accent: 0xff2d78,
+        highlight: 0x00ffaa,
+        warm: 0xffb020,
+        ambient: 0x001133,
+        background: 0x050510,
+        text: 0xe8eaf6,
+    },
+    'high-contrast': {
+        primary: 0x33e0ff,
+        secondary: 0xc58cff,
+        accent: 0xff5c96,
+        highlight: 0x4dffc0,
+        warm: 0xffc94d,
+        ambient: 0x102040,
+        background: 0x000000,
+        text: 0xffffff,
+    },
+    // Example co-branded palette for client presentations
+    client: {
+        primary: 0xff9f1c,
+        secondary: 0x2ec4b6,
+        accent: 0xe71d36,
+        highlight: 0xcbf3f0,
+        warm: 0xffbf69,
+        ambient: 0x1a1200,
+        background: 0x0b0906,
+        text: 0xfdf6ec,
+    },
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+export const THEME_TOKENS = Object.keys(THEMES.brand) as ThemeToken[];
+
+// Custom properties each token is written to; each also gets a `-rgb` twin
+// ("0, 212, 255") for use inside rgba()
+const CSS_VARIABLES: Record<ThemeToken, string> = {
+    primary: '--neon-blue',
+    secondary: '--electric-purple',
+    accent: '--cyber-pink',
+    highlight: '--neon-aqua',
+    warm: '--signal-amber',
+    ambient: '--ambient-deep',
+    background: '--space-deep',
+    text: '--text-primary',
+};
+
+export const THEME_TRANSITION = 0.8;
+
+type ThemeListener = (name: ThemeName | null) => void;
+
+interface Rgb {
+    r: number;
+    g: number;
+    b: number;
+}
+
+function toRgb(hex: number): Rgb {
+    return { r: ((hex >> 16) & 255) / 255, g: ((hex >> 8) & 255) / 255, b: (hex & 255) / 255 };
+}
+
+function tokenRecord<T>(make: (token: ThemeToken) => T): Record<ThemeToken, T> {
+    return Object.fromEntries(THEME_TOKENS.map(t => [t, make(t)])) as Record<ThemeToken, T>;
+}
+
+export class Theme {
+    /**
+     * Colour-managed colours, for material and light `.color` and for shader
+     * uniforms (the scenes' shaders end with the colour-space chunk)
+     */
+    readonly colors: Record<ThemeToken, THREE.Color>;
+
+    private rgb: Record<ThemeToken, Rgb>;
+    private activeName: ThemeName | null = 'brand';
+    private tween: gsap.core.Tween | null = null;
+    private listeners: Set<ThemeListener> = new Set();
+
+    constructor(palette: ThemePalette = THEMES.brand) {
+        this.rgb = tokenRecord(t => toRgb(palette[t]));
+        this.colors = tokenRecord(() => new THREE.Color());
+        this.syncColors();
+    }
+
+    /** The named theme in use, or null for a custom palette */
+    get name(): ThemeName | null {
+        return this.activeName;
+    }
+
+    /** CSS hex string, e.g. for Canvas2D */
+    public hex(token: ThemeToken): string {
+        return `#${this.colors[token].getHexString(THREE.SRGBColorSpace)}`;
+    }
+
+    public rgba(token: ThemeToken, alpha: number): string {
+        return `rgba(${this.channels(token)}, ${alpha})`;
+    }
+
+    /**
+     * Switch palette, blending over `duration` seconds (0 = immediately).
+     * Resolves when the switch has finished or been overtaken by another.
+     */
+    public set(theme: ThemeName | ThemePalette, duration: number = THEME_TRANSITION): Promise<void> {
+        const palette = typeof theme === 'string' ? THEMES[theme] : theme;
+        this.activeName = typeof theme === 'string' ? theme : null;
+        this.tween?.kill();
+        this.tween = null;
+
+        const from = tokenRecord(t => ({ ...this.rgb[t] }));
+        const to = tokenRecord(t => toRgb(palette[t]));
+        const blend = (progress: number) => {
+            THEME_TOKENS.forEach((t) => {
+                const a = from[t], b = to[t];
+                this.rgb[t] = {
+                    r: a.r + (b.r - a.r) * progress,
+                    g: a.g + (b.g - a.g) * progress,
+                    b: a.b + (b.b - a.b) * progress,
+                };
+            });
+            this.syncColors();
+            this.writeCss();
+            this.emit();
+        };
+
+        if (duration <= 0) {
+            blend(1);
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve) => {
+            const proxy = { progress: 0 };
+            this.tween = gsap.to(proxy, {
+                progress: 1,
+                duration,
+                ease: 'power2.inOut',
+                onUpdate: () => blend(proxy.progress),
+                onComplete: () => {
+                    this.tween = null;
+                    resolve();
+                },
+                onInterrupt: () => resolve(),
+            });
+        });
+    }
+
+    /** Called on every step of a theme change, so scenes can copy colours across */
+    public onChange(listener: ThemeListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private channels(token: ThemeToken): string {
+        const { r, g, b } = this.rgb[token];
+        return `${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}`;
+    }
+
+    private syncColors() {
+        THEME_TOKENS.forEach((t) => {
+            const { r, g, b } = this.rgb[t];
+            this.colors[t].setRGB(r, g, b, THREE.SRGBColorSpace);
+        });
+    }
+
+    private writeCss() {
+        const style = document.documentElement.style;
+        THEME_TOKENS.forEach((t) => {
+            style.setProperty(CSS_VARIABLES[t], this.hex(t));
+            style.setProperty(`${CSS_VARIABLES[t]}-rgb`, this.channels(t));
+        });
+    }
+
+    private emit() {
+        this.listeners.forEach(l => l(this.activeName));
+    }
+}
+
+export const theme = new Theme();
+
+// ─── SCENE HELPERS ───
+
+type Colored = (THREE.Material | THREE.Light) & { color: THREE.Color };
+
+/** Colour a material or light from `token` and keep it on that token under `applyTheme` */
+export function themed<T extends Colored>(target: T, token: ThemeToken): T {
+    target.userData.themeToken = token;
+    target.color.copy(theme.colors[token]);
+    return target;
+}
+
+/** The live colour of a theme token, or a fixed colour from sRGB [r, g, b] */
+export function sceneColor(color: ThemeToken | [number, number, number]): THREE.Color {
+    return typeof color === 'string' ? theme.colors[color] : new THREE.Color().setRGB(...color, THREE.SRGBColorSpace);
+}
+
+/** Re-colour every `themed` material and light below `root` */
+export function applyTheme(root: THREE.Object3D) {
+    const recolor = (target: Colored) => {
+        const token = target.userData.themeToken as ThemeToken | undefined;
+        if (token) target.color.copy(theme.colors[token]);
+    };
+    root.traverse((obj: THREE.Object3D) => {
+        if (obj instanceof THREE.Light) recolor(obj as Colored);
+        if (!(obj instanceof THREE.Mesh || obj instanceof THREE.Points || obj instanceof THREE.Line)) return;
+        const material: THREE.Material | THREE.Material[] = obj.material;
+        (Array.isArray(material) ? material : [material]).forEach(m => recolor(m as Colored));
+    });
+}
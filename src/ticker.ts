@@ -0,0 +1,172 @@
+/**
+ * Shared frame scheduler.
+ * One requestAnimationFrame loop drives every scene, transition and UI
+ * animation. Subscribers run in priority order, get a delta-time clock, can
+ * be tied to an element so they idle while it is offscreen, and the whole
+ * loop stops while the tab is hidden.
+ */
+
+export const TickPriority = {
+    INPUT: 0,
+    SIMULATION: 100,
+    RENDER: 200,
+    UI: 300,
+} as const;
+
+export interface FrameBudget {
+    /** Milliseconds left in this frame's budget, can go negative */
+    remaining(): number;
+    /** True once this frame has used up its budget — skip optional work */
+    exceeded(): boolean;
+}
+
+export interface FrameInfo {
+    /** rAF timestamp (ms) */
+    now: number;
+    /** Seconds since the previous frame, clamped so resumes don't jump */
+    delta: number;
+    /** Seconds the ticker has been running, excluding pauses */
+    elapsed: number;
+    frame: number;
+    budget: FrameBudget;
+}
+
+export type TickCallback = (frame: FrameInfo) => void;
+
+export interface TickOptions {
+    priority?: number;
+    /** Skip this subscriber while the element is not on screen */
+    element?: Element;
+}
+
+interface Subscriber {
+    callback: TickCallback;
+    priority: number;
+    element?: Element;
+}
+
+const MAX_DELTA = 0.1;
+
+export class Ticker {
+    private subscribers: Subscriber[] = [];
+    private pauseReasons: Set<string> = new Set();
+    private hiddenElements: Set<Element> = new Set();
+    private visibility: IntersectionObserver | null = null;
+    private rafId: number = 0;
+    private lastNow: number = 0;
+    private frameStart: number = 0;
+    private elapsed: number = 0;
+    private frameCount: number = 0;
+
+    public targetFrameMs: number = 1000 / 60;
+
+    private budget: FrameBudget = {
+        remaining: () => this.targetFrameMs - (performance.now() - this.frameStart),
+        exceeded: () => this.budget.remaining() <= 0,
+    };
+
+    constructor() {
+        document.addEventListener('visibilitychange', () => {
+            if (document.hidden) this.pause('hidden');
+            else this.resume('hidden');
+        });
+        if (document.hidden) this.pauseReasons.add('hidden');
+    }
+
+    get paused(): boolean {
+        return this.pauseReasons.size > 0;
+    }
+
+    get size(): number {
+        return this.subscribers.length;
+    }
+
+    /** Register a per-frame callback; returns a function that removes it */
+    public add(callback: TickCallback, options: TickOptions = {}): () => void {
+        const subscriber: Subscriber = {
+            callback,
+            priority: options.priority ?? TickPriority.UI,
+            element: options.element,
+        };
+
+        // Stable insert by priority
+        const index = this.subscribers.findIndex(s => s.priority > subscriber.priority);
+        if (index === -1) this.subscribers.push(subscriber);
+        else this.subscribers.splice(index, 0, subscriber);
+
+        if (subscriber.element) this.watch(subscriber.element);
+        this.start();
+
+        return () => this.remove(subscriber);
+    }
+
+    /** Pause everything; each reason must be resumed separately */
+    public pause(reason: string = 'manual') {
+        this.pauseReasons.add(reason);
+        this.stop();
+    }
+
+    public resume(reason: string = 'manual') {
+        this.pauseReasons.delete(reason);
+        this.start();
+    }
+
+    private remove(subscriber: Subscriber) {
+        const index = this.subscribers.indexOf(subscriber);
+        if (index === -1) return;
+        this.subscribers.splice(index, 1);
+
+        const element = subscriber.element;
+        if (element && !this.subscribers.some(s => s.element === element)) {
+            this.visibility?.unobserve(element);
+            this.hiddenElements.delete(element);
+        }
+        if (this.subscribers.length === 0) this.stop();
+    }
+
+    private watch(element: Element) {
+        if (!this.visibility) {
+            this.visibility = new IntersectionObserver((entries) => {
+                entries.forEach((entry) => {
+                    if (entry.isIntersecting) this.hiddenElements.delete(entry.target);
+                    else this.hiddenElements.add(entry.target);
+                });
+            });
+        }
+        this.visibility.observe(element);
+    }
+
+    private start() {
+        if (this.rafId || this.paused || this.subscribers.length === 0) return;
+        this.lastNow = 0;
+        this.rafId = requestAnimationFrame(this.loop);
+    }
+
+    private stop() {
+        if (!this.rafId) return;
+        cancelAnimationFrame(this.rafId);
+        this.rafId = 0;
+    }
+
+    private loop = (now: number) => {
+        this.rafId = requestAnimationFrame(this.loop);
+        this.frameStart = performance.now();
+
+        const delta = this.lastNow ? Math.min((now - this.lastNow) / 1000, MAX_DELTA) : 0;
+        this.lastNow = now;
+        this.elapsed += delta;
+        this.frameCount++;
+
+        const frame: FrameInfo = { now, delta, elapsed: this.elapsed, frame: this.frameCount, budget: this.budget };
+
+        // Copy so callbacks can remove themselves mid-frame
+        for (const subscriber of this.subscribers.slice()) {
+            if (!this.subscribers.includes(subscriber)) continue;
+            if (subscriber.element && this.hiddenElements.has(subscriber.element)) continue;
+            subscriber.callback(frame);
+        }
+    };
+}
+
+/** The app-wide ticker every subsystem registers with */
+export const ticker = new Ticker();
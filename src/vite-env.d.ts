@@ -3,3 +3,16 @@ declare module '*.svg' {
     const value: string;
     export default value;
 }
+
+interface ImportMetaEnv {
+    /** True under the dev server; production builds drop code behind it */
+    readonly DEV: boolean;
+    /** POST endpoint for the contact form; mailto is used when unset */
+    readonly VITE_CONTACT_ENDPOINT?: string;
+    /** Address for the mailto transport / fallback link */
+    readonly VITE_CONTACT_EMAIL?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
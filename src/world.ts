@@ -1,99 +1,149 @@
 import * as THREE from 'three';
-
-export class WorldScene {
+import type { QualityGovernor, QualitySettings } from './quality';
+import type { MotionPreference } from './motion';
+import { ticker, TickPriority, type FrameInfo } from './ticker';
+import type { SectionScroll } from './router';
+import { CameraPath, type CameraPose } from './camera-path';
+import { SetPieceManager, type SetPieceId } from './set-pieces';
+import { Lifetime, type Disposable } from './lifecycle';
+import { PostPipeline, type EffectParams } from './post-fx';
+import { SILENT_BANDS, type AudioBandSource } from './audio';
+import { SpatialAudio, type SpatialHost } from './spatial-audio';
+import { theme, themed, applyTheme, sceneColor } from './theme';
+import { between, pickWeighted, type Random } from './random';
+import { DEFAULT_SCENE, type WorldSceneDescription } from './scene-description';
+import type { InspectorTarget } from './inspector';
+
+// Emitter voices: floating objects chime on an A-minor pentatonic, lights hum low
+const CHIME_NOTES = [440, 523.25, 587.33, 659.25, 783.99];
+const LIGHT_HUMS = [110, 164.81, 220];
+
+const WORLD_EFFECTS: Partial<EffectParams> = {
+    bloomStrength: 0.6,
+    bloomRadius: 0.4,
+    bloomThreshold: 0.25,
+    aberration: 0.0015,
+    vignette: 0.6,
+    grain: 0.3,
+};
+
+export class WorldScene implements Disposable {
     private scene: THREE.Scene;
     private camera: THREE.PerspectiveCamera;
     private renderer: THREE.WebGLRenderer;
+    private post: PostPipeline;
     private particles: THREE.Points;
     private gridFloor: THREE.Group;
     private floatingObjects: THREE.Group;
     private fogPlanes: THREE.Group;
-    private clock: THREE.Clock = new THREE.Clock();
-    private animationId: number = 0;
+    // Scene time advances at motion.scale, so reduced motion slows ambient drift
+    private time: number = 0;
+    private lifetime: Lifetime = new Lifetime();
     private isDestroyed: boolean = false;
-    private scrollProgress: number = 0;
+    private scroll: SectionScroll = { progress: 0, section: 'home', offset: 0 };
+    private cameraPath: CameraPath = new CameraPath();
+    private pose: CameraPose = { position: new THREE.Vector3(), target: new THREE.Vector3(), fov: 50, fogDensity: 0.04 };
+    private lookTarget: THREE.Vector3 = new THREE.Vector3();
+    private setPieces: SetPieceManager;
+    private spatial: SpatialAudio | null;
     private mouse: THREE.Vector2 = new THREE.Vector2();
     private targetMouse: THREE.Vector2 = new THREE.Vector2();
 
-    constructor(private canvas: HTMLCanvasElement) {
+    constructor(
+        private canvas: HTMLCanvasElement,
+        private quality: QualityGovernor,
+        private motion: MotionPreference,
+        private audio: (AudioBandSource & SpatialHost) | null = null,
+        /** Source for every random placement; pass a seeded one for repeatable scenes */
+        private random: Random = Math.random,
+        /** Counts, scatter, colours and lights; see scene-description.ts */
+        private description: WorldSceneDescription = structuredClone(DEFAULT_SCENE.world),
+    ) {
         this.scene = new THREE.Scene();
-        this.scene.fog = new THREE.FogExp2(0x050510, 0.04);
+        this.scene.fog = new THREE.FogExp2(theme.colors[this.description.fog.color], this.description.fog.density);
 
         this.camera = new THREE.PerspectiveCamera(50, window.innerWidth / window.innerHeight, 0.1, 500);
-        this.camera.position.set(0, 2, 10);
+        this.cameraPath.sample(this.scroll, this.pose);
+        this.camera.position.copy(this.pose.position);
+        this.lookTarget.copy(this.pose.target);
 
         this.renderer = new THREE.WebGLRenderer({
             canvas: this.canvas,
-            antialias: true,
+            // Antialiasing is done by the post pipeline, so it can follow the tier
+            antialias: false,
             alpha: true,
         });
         this.renderer.setSize(window.innerWidth, window.innerHeight);
-        this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+        this.renderer.setPixelRatio(this.quality.pixelRatio);
         this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
-        this.renderer.toneMappingExposure = 0.8;
+        this.renderer.toneMappingExposure = this.description.exposure;
+        this.post = new PostPipeline(this.renderer, this.scene, this.camera, this.quality.settings.effects, WORLD_EFFECTS);
 
         this.particles = new THREE.Points();
         this.gridFloor = new THREE.Group();
         this.floatingObjects = new THREE.Group();
         this.fogPlanes = new THREE.Group();
+        this.setPieces = new SetPieceManager(this.scene, this.motion);
+        this.spatial = audio ? new SpatialAudio(audio, this.camera, this.quality.settings.audioEmitters) : null;
 
         this.init();
         this.setupEvents();
+        this.applyQuality(this.quality.settings);
+        this.lifetime.add(this.quality.onChange((settings) => this.applyQuality(settings)));
     }
 
     private init() {
+        const { stars: starSpec, grid: gridSpec, floatingObjects: objectSpec, fogPlanes: fogSpec, lights } = this.description;
+        const range = (r: [number, number]) => between(this.random, r[0], r[1]);
+
         // ─── STAR FIELD ───
-        const starCount = 2000;
+        const starCount = starSpec.count;
         const starPositions = new Float32Array(starCount * 3);
         const starSizes = new Float32Array(starCount);
-        const starColors = new Float32Array(starCount * 3);
+        // Index into the palette uniform, one entry per description colour
+        const starTones = new Float32Array(starCount);
 
         for (let i = 0; i < starCount; i++) {
             const i3 = i * 3;
-            starPositions[i3] = (Math.random() - 0.5) * 200;
-            starPositions[i3 + 1] = (Math.random() - 0.5) * 100 + 10;
-            starPositions[i3 + 2] = (Math.random() - 0.5) * 200 - 50;
-
-            starSizes[i] = Math.random() * 1.2 + 0.2;
-
-            const c = Math.random();
-            if (c < 0.4) {
-                starColors[i3] = 0; starColors[i3 + 1] = 0.7; starColors[i3 + 2] = 1;
-            } else if (c < 0.7) {
-                starColors[i3] = 0.6; starColors[i3 + 1] = 0.3; starColors[i3 + 2] = 0.9;
-            } else if (c < 0.9) {
-                starColors[i3] = 1; starColors[i3 + 1] = 0.2; starColors[i3 + 2] = 0.5;
-            } else {
-                starColors[i3] = 0.8; starColors[i3 + 1] = 0.85; starColors[i3 + 2] = 1;
-            }
+            starPositions[i3] = range(starSpec.x);
+            starPositions[i3 + 1] = range(starSpec.y);
+            starPositions[i3 + 2] = range(starSpec.z);
+
+            starSizes[i] = range(starSpec.size);
+
+            starTones[i] = pickWeighted(this.random, starSpec.colors.map(c => c.weight));
         }
 
         const starGeo = new THREE.BufferGeometry();
         starGeo.setAttribute('position', new THREE.BufferAttribute(starPositions, 3));
         starGeo.setAttribute('size', new THREE.BufferAttribute(starSizes, 1));
-        starGeo.setAttribute('color', new THREE.BufferAttribute(starColors, 3));
+        starGeo.setAttribute('tone', new THREE.BufferAttribute(starTones, 1));
 
         const starMat = new THREE.ShaderMaterial({
             uniforms: {
                 time: { value: 0 },
-                pixelRatio: { value: Math.min(window.devicePixelRatio, 2) },
+                pixelRatio: { value: this.quality.pixelRatio },
+                twinkleBoost: { value: 0 },
+                palette: { value: starSpec.colors.map(c => sceneColor(c.color)) },
             },
             vertexShader: `
         attribute float size;
-        attribute vec3 color;
+        attribute float tone;
         varying vec3 vColor;
         varying float vAlpha;
         uniform float time;
         uniform float pixelRatio;
+        uniform float twinkleBoost;
+        uniform vec3 palette[${starSpec.colors.length}];
         
         void main() {
-          vColor = color;
+          vColor = palette[int(tone + 0.5)];
           vec3 pos = position;
           pos.x += sin(time * 0.1 + position.z * 0.01) * 0.5;
           pos.y += cos(time * 0.08 + position.x * 0.01) * 0.3;
           
           float twinkle = sin(time * 2.0 + float(gl_VertexID) * 1.37) * 0.5 + 0.5;
-          vAlpha = 0.2 + twinkle * 0.4;
+          vAlpha = 0.2 + twinkle * (0.4 + twinkleBoost * 0.4);
           
           vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
           gl_PointSize = size * pixelRatio * (100.0 / -mvPosition.z);
@@ -109,6 +159,8 @@ export class WorldScene {
           if (d > 0.5) discard;
           float alpha = 1.0 - smoothstep(0.0, 0.5, d);
           gl_FragColor = vec4(vColor, alpha * vAlpha);
+          #include <tonemapping_fragment>
+          #include <colorspace_fragment>
         }
       `,
             transparent: true,
@@ -123,27 +175,26 @@ export class WorldScene {
         this.gridFloor = new THREE.Group();
 
         // Horizontal grid lines
-        const gridMat = new THREE.LineBasicMaterial({
-            color: 0x00d4ff,
+        const gridMat = themed(new THREE.LineBasicMaterial({
             transparent: true,
-            opacity: 0.06,
+            opacity: gridSpec.opacity,
             blending: THREE.AdditiveBlending,
-        });
+        }), gridSpec.color);
 
-        const gridSize = 100;
-        const gridDivisions = 50;
+        const gridSize = gridSpec.size;
+        const gridDivisions = gridSpec.divisions;
         for (let i = -gridDivisions; i <= gridDivisions; i++) {
             const points = [
-                new THREE.Vector3(-gridSize, -3, i * (gridSize / gridDivisions)),
-                new THREE.Vector3(gridSize, -3, i * (gridSize / gridDivisions)),
+                new THREE.Vector3(-gridSize, gridSpec.height, i * (gridSize / gridDivisions)),
+                new THREE.Vector3(gridSize, gridSpec.height, i * (gridSize / gridDivisions)),
             ];
             const lineGeo = new THREE.BufferGeometry().setFromPoints(points);
             const line = new THREE.Line(lineGeo, gridMat);
             this.gridFloor.add(line);
 
             const points2 = [
-                new THREE.Vector3(i * (gridSize / gridDivisions), -3, -gridSize),
-                new THREE.Vector3(i * (gridSize / gridDivisions), -3, gridSize),
+                new THREE.Vector3(i * (gridSize / gridDivisions), gridSpec.height, -gridSize),
+                new THREE.Vector3(i * (gridSize / gridDivisions), gridSpec.height, gridSize),
             ];
             const lineGeo2 = new THREE.BufferGeometry().setFromPoints(points2);
             const line2 = new THREE.Line(lineGeo2, gridMat);
@@ -155,11 +206,10 @@ export class WorldScene {
         // ─── FLOATING HOLOGRAPHIC OBJECTS ───
         this.floatingObjects = new THREE.Group();
 
-        // Floating shapes — more variety and density
-        const shapeTypes = ['box', 'octahedron', 'icosahedron', 'dodecahedron', 'torusKnot'];
-        for (let i = 0; i < 18; i++) {
-            const size = 0.2 + Math.random() * 0.6;
-            const shapeType = shapeTypes[Math.floor(Math.random() * shapeTypes.length)];
+        const { shapes } = objectSpec;
+        for (let i = 0; i < objectSpec.count; i++) {
+            const size = range(objectSpec.size);
+            const shapeType = shapes[Math.floor(this.random() * shapes.length)];
             let geo: THREE.BufferGeometry;
 
             switch (shapeType) {
@@ -182,30 +232,31 @@ export class WorldScene {
                     geo = new THREE.BoxGeometry(size, size, size);
             }
 
-            const colorPick = [0x00d4ff, 0xa855f7, 0xff2d78, 0x00ffaa][Math.floor(Math.random() * 4)];
-            const mat = new THREE.MeshBasicMaterial({
-                color: colorPick,
+            const colorPick = objectSpec.colors[Math.floor(this.random() * objectSpec.colors.length)];
+            const mat = themed(new THREE.MeshBasicMaterial({
                 wireframe: true,
                 transparent: true,
-                opacity: 0.08 + Math.random() * 0.08,
+                opacity: range(objectSpec.opacity),
                 blending: THREE.AdditiveBlending,
-            });
+            }), colorPick);
 
             const mesh = new THREE.Mesh(geo, mat);
-            mesh.position.set(
-                (Math.random() - 0.5) * 40,
-                Math.random() * 12 - 3,
-                (Math.random() - 0.5) * 50 - 10,
-            );
+            mesh.position.set(range(objectSpec.x), range(objectSpec.y), range(objectSpec.z));
             mesh.userData = {
                 startY: mesh.position.y,
                 startX: mesh.position.x,
-                floatSpeed: 0.2 + Math.random() * 0.6,
-                rotSpeed: (Math.random() - 0.5) * 2.5,
-                phase: Math.random() * Math.PI * 2,
-                floatAmplitude: 0.3 + Math.random() * 0.8,
+                floatSpeed: range(objectSpec.floatSpeed),
+                rotSpeed: range(objectSpec.rotationSpeed),
+                phase: this.random() * Math.PI * 2,
+                floatAmplitude: range(objectSpec.floatAmplitude),
             };
             this.floatingObjects.add(mesh);
+            this.spatial?.add(mesh, {
+                type: 'sine',
+                frequency: CHIME_NOTES[i % CHIME_NOTES.length],
+                gain: 0.025,
+                tremolo: mesh.userData.floatSpeed,
+            });
         }
 
         this.scene.add(this.floatingObjects);
@@ -213,12 +264,14 @@ export class WorldScene {
         // ─── VOLUMETRIC FOG PLANES ───
         this.fogPlanes = new THREE.Group();
 
-        for (let i = 0; i < 8; i++) {
-            const fogGeo = new THREE.PlaneGeometry(80, 20);
+        for (let i = 0; i < fogSpec.count; i++) {
+            const fogGeo = new THREE.PlaneGeometry(fogSpec.width, fogSpec.height);
             const fogMat = new THREE.ShaderMaterial({
                 uniforms: {
                     time: { value: 0 },
-                    color: { value: new THREE.Color([0x00d4ff, 0xa855f7, 0x001133, 0xff2d78, 0x00ffaa][i % 5]) },
+                    color: { value: theme.colors[fogSpec.colors[i % fogSpec.colors.length]] },
+                    opacity: { value: fogSpec.opacity },
+                    audioLevel: { value: 0 },
                 },
                 vertexShader: `
           varying vec2 vUv;
@@ -230,14 +283,18 @@ export class WorldScene {
                 fragmentShader: `
           uniform float time;
           uniform vec3 color;
+          uniform float opacity;
+          uniform float audioLevel;
           varying vec2 vUv;
           
           void main() {
             float d = length(vUv - vec2(0.5));
-            float alpha = smoothstep(0.5, 0.0, d) * 0.03;
+            float alpha = smoothstep(0.5, 0.0, d) * opacity * (1.0 + audioLevel);
             alpha *= sin(time * 0.3 + vUv.x * 3.0) * 0.5 + 0.5;
             alpha *= sin(time * 0.2 + vUv.y * 2.0) * 0.3 + 0.7;
             gl_FragColor = vec4(color, alpha);
+            #include <tonemapping_fragment>
+            #include <colorspace_fragment>
           }
         `,
                 transparent: true,
@@ -247,115 +304,224 @@ export class WorldScene {
             });
 
             const fog = new THREE.Mesh(fogGeo, fogMat);
-            fog.position.set(
-                (Math.random() - 0.5) * 30,
-                Math.random() * 10 - 3,
-                -8 - i * 12,
-            );
-            fog.rotation.y = Math.random() * 0.8 - 0.4;
-            fog.rotation.x = Math.random() * 0.3 - 0.15;
+            fog.position.set(range(fogSpec.x), range(fogSpec.y), fogSpec.start - i * fogSpec.spacing);
+            fog.rotation.y = range(fogSpec.tiltY);
+            fog.rotation.x = range(fogSpec.tiltX);
             this.fogPlanes.add(fog);
         }
 
         this.scene.add(this.fogPlanes);
 
         // ─── LIGHTING ───
-        const pointLight1 = new THREE.PointLight(0x00d4ff, 1.8, 60);
-        pointLight1.position.set(5, 5, -5);
-        this.scene.add(pointLight1);
-
-        const pointLight2 = new THREE.PointLight(0xa855f7, 1.2, 60);
-        pointLight2.position.set(-5, 3, -10);
-        this.scene.add(pointLight2);
+        lights.forEach((spec, i) => {
+            const light = themed(new THREE.PointLight(undefined, spec.intensity, spec.distance), spec.color);
+            light.position.set(...spec.position);
+            this.scene.add(light);
+            this.spatial?.add(light, { type: 'triangle', frequency: LIGHT_HUMS[i % LIGHT_HUMS.length], gain: 0.04, tremolo: 0.15 });
+        });
 
-        const pointLight3 = new THREE.PointLight(0xff2d78, 0.6, 40);
-        pointLight3.position.set(0, 8, -20);
-        this.scene.add(pointLight3);
+        // Shader uniforms share the theme's colours; fog, materials and lights need copying
+        this.lifetime.add(theme.onChange(() => {
+            (this.scene.fog as THREE.FogExp2).color.copy(theme.colors[this.description.fog.color]);
+            applyTheme(this.scene);
+        }));
 
         // Start animation
-        this.animate();
+        this.lifetime.add(ticker.add(this.animate, { priority: TickPriority.RENDER, element: this.canvas }));
     }
 
-    private setupEvents() {
-        const handleMove = (x: number, y: number) => {
-            this.targetMouse.x = (x / window.innerWidth) * 2 - 1;
-            this.targetMouse.y = -(y / window.innerHeight) * 2 + 1;
-        };
-
-        window.addEventListener('mousemove', (e) => {
-            handleMove(e.clientX, e.clientY);
+    /** Scale stars, floating objects, fog planes, grid and pixel ratio to the current quality tier */
+    private applyQuality(settings: QualitySettings) {
+        if (this.isDestroyed) return;
+        const pixelRatio = this.quality.pixelRatio;
+        this.renderer.setPixelRatio(pixelRatio);
+        this.post.setPixelRatio(pixelRatio);
+        this.post.setEffects(settings.effects);
+        this.post.setAntialias(settings.antialias);
+        (this.particles.material as THREE.ShaderMaterial).uniforms.pixelRatio.value = pixelRatio;
+
+        const starCount = this.particles.geometry.getAttribute('position').count;
+        this.particles.geometry.setDrawRange(0, Math.floor(starCount * settings.particleScale));
+
+        this.floatingObjects.children.forEach((obj, i) => {
+            obj.visible = i < settings.floatingObjects;
         });
+        this.spatial?.setMaxEmitters(settings.audioEmitters);
 
-        window.addEventListener('touchmove', (e) => {
-            if (e.touches.length > 0) {
-                // Prevent scrolling interference with 3D movement
-                handleMove(e.touches[0].clientX, e.touches[0].clientY);
-            }
-        }, { passive: true });
+        this.fogPlanes.children.forEach((fog, i) => {
+            fog.visible = i < settings.fogPlanes;
+        });
 
-        window.addEventListener('resize', () => {
-            if (this.isDestroyed) return;
-            this.camera.aspect = window.innerWidth / window.innerHeight;
-            this.camera.updateProjectionMatrix();
-            this.renderer.setSize(window.innerWidth, window.innerHeight);
-            // Cap pixel ratio for mobile performance
-            this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 1.5));
+        // Lines are added in pairs (horizontal + vertical) per division
+        this.gridFloor.children.forEach((line, i) => {
+            line.visible = Math.floor(i / 2) % settings.gridStep === 0;
         });
     }
 
-    public updateScroll(progress: number) {
-        this.scrollProgress = progress;
+    private setupEvents() {
+        this.lifetime.listen(window, 'mousemove', this.handleMouseMove);
+        this.lifetime.listen(window, 'touchmove', this.handleTouchMove, { passive: true });
+        this.lifetime.listen(window, 'resize', this.handleResize);
+    }
+
+    private setTargetMouse(x: number, y: number) {
+        this.targetMouse.x = (x / window.innerWidth) * 2 - 1;
+        this.targetMouse.y = -(y / window.innerHeight) * 2 + 1;
+    }
+
+    private handleMouseMove = (e: MouseEvent) => {
+        this.setTargetMouse(e.clientX, e.clientY);
+    };
+
+    private handleTouchMove = (e: TouchEvent) => {
+        if (e.touches.length > 0) {
+            // Prevent scrolling interference with 3D movement
+            this.setTargetMouse(e.touches[0].clientX, e.touches[0].clientY);
+        }
+    };
+
+    private handleResize = () => {
+        if (this.isDestroyed) return;
+        this.camera.aspect = window.innerWidth / window.innerHeight;
+        this.camera.updateProjectionMatrix();
+        this.renderer.setSize(window.innerWidth, window.innerHeight);
+        this.renderer.setPixelRatio(this.quality.pixelRatio);
+        this.post.setSize(window.innerWidth, window.innerHeight);
+    };
+
+    public updateScroll(scroll: SectionScroll) {
+        this.scroll = scroll;
+    }
+
+    /** Show the themed set piece for a service, or null for none */
+    public setSetPiece(id: SetPieceId | null) {
+        if (this.isDestroyed) return;
+        this.setPieces.activate(id);
     }
 
-    private animate = () => {
+    private animate = (frame: FrameInfo) => {
         if (this.isDestroyed) return;
-        this.animationId = requestAnimationFrame(this.animate);
 
-        const time = this.clock.getElapsedTime();
+        this.time += frame.delta * this.motion.scale;
+        const time = this.time;
+        this.quality.sample(frame.now);
 
         // Smooth mouse
         this.mouse.lerp(this.targetMouse, 0.03);
 
-        // Camera responds to scroll
-        const targetY = 2 - this.scrollProgress * 3;
-        const targetZ = 10 - this.scrollProgress * 5;
-        this.camera.position.y += (targetY - this.camera.position.y) * 0.05;
-        this.camera.position.z += (targetZ - this.camera.position.z) * 0.05;
+        // Camera follows the per-section path
+        const pose = this.cameraPath.sample(this.scroll, this.pose);
+        this.camera.position.y += (pose.position.y - this.camera.position.y) * 0.05;
+        this.camera.position.z += (pose.position.z - this.camera.position.z) * 0.05;
+        this.lookTarget.lerp(pose.target, 0.05);
+
+        // Camera responds to mouse — frozen in reduced motion
+        const drift = this.motion.reduced ? 0 : 1;
+        this.camera.position.x += (pose.position.x + this.mouse.x * 1.5 * drift - this.camera.position.x) * 0.02;
+        this.camera.lookAt(this.lookTarget);
+        this.camera.rotateY(-this.mouse.x * 0.02 * drift);
+        this.camera.rotateX(this.mouse.y * 0.01 * drift);
+
+        if (Math.abs(pose.fov - this.camera.fov) > 0.01) {
+            this.camera.fov += (pose.fov - this.camera.fov) * 0.05;
+            this.camera.updateProjectionMatrix();
+        }
+        const fog = this.scene.fog as THREE.FogExp2;
+        fog.density += (pose.fogDensity * this.description.fog.densityScale - fog.density) * 0.05;
 
-        // Camera responds to mouse
-        this.camera.position.x += (this.mouse.x * 1.5 - this.camera.position.x) * 0.02;
-        this.camera.rotation.y = -this.mouse.x * 0.02;
-        this.camera.rotation.x = this.mouse.y * 0.01;
+        // Audio reaction: highs and onsets sharpen the twinkle, bass thickens the fog
+        const bands = this.audio?.bands ?? SILENT_BANDS;
 
         // Update star shader
-        (this.particles.material as THREE.ShaderMaterial).uniforms.time.value = time;
+        const starUniforms = (this.particles.material as THREE.ShaderMaterial).uniforms;
+        starUniforms.time.value = time;
+        starUniforms.twinkleBoost.value = Math.min(bands.high * 1.5 + bands.onset * 0.5, 1);
 
         // Floating objects animation
         this.floatingObjects.children.forEach((obj) => {
             const ud = obj.userData;
             obj.position.y = ud.startY + Math.sin(time * ud.floatSpeed + ud.phase) * (ud.floatAmplitude || 0.5);
             obj.position.x = ud.startX + Math.cos(time * ud.floatSpeed * 0.5 + ud.phase) * 0.3;
-            obj.rotation.x += ud.rotSpeed * 0.003;
-            obj.rotation.y += ud.rotSpeed * 0.004;
-            obj.rotation.z += ud.rotSpeed * 0.001;
+            obj.rotation.x += ud.rotSpeed * 0.003 * this.motion.scale;
+            obj.rotation.y += ud.rotSpeed * 0.004 * this.motion.scale;
+            obj.rotation.z += ud.rotSpeed * 0.001 * this.motion.scale;
         });
 
+        // Set pieces are optional detail — skip them on frames that are already over budget
+        if (!frame.budget.exceeded()) this.setPieces.update(time);
+
         // Grid scroll effect - subtle z movement
-        this.gridFloor.position.z = -(time * 0.5) % 4;
+        // Wraps every two cells, where the pattern repeats
+        const cell = this.description.grid.size / this.description.grid.divisions;
+        this.gridFloor.position.z = -(time * this.description.grid.scrollSpeed) % (cell * 2);
 
         // Fog animation
+        const fogLevel = bands.low * 1.5 + bands.onset * 0.5;
         this.fogPlanes.children.forEach((fog) => {
-            (fog as THREE.Mesh).material && ((fog as THREE.Mesh).material as THREE.ShaderMaterial).uniforms &&
-                (((fog as THREE.Mesh).material as THREE.ShaderMaterial).uniforms.time.value = time);
+            const uniforms = ((fog as THREE.Mesh).material as THREE.ShaderMaterial).uniforms;
+            uniforms.time.value = time;
+            uniforms.audioLevel.value = fogLevel;
         });
 
-        this.renderer.render(this.scene, this.camera);
+        // Positional audio follows the camera and objects as they are this frame
+        this.spatial?.update(frame.delta);
+
+        this.post.render(time);
     };
 
+    /** Renderer, scene graph and live tuning controls for the ?debug inspector */
+    public inspect(): InspectorTarget {
+        const d = this.description;
+        const gridMaterial = (this.gridFloor.children[0] as THREE.Line | undefined)?.material as THREE.LineBasicMaterial | undefined;
+        return {
+            name: 'World',
+            renderer: this.renderer,
+            scene: this.scene,
+            controls: [
+                {
+                    label: 'Exposure', min: 0, max: 3, step: 0.05,
+                    get: () => d.exposure,
+                    set: (v) => { d.exposure = this.renderer.toneMappingExposure = v; },
+                },
+                {
+                    label: 'Fog density ×', min: 0, max: 4, step: 0.05,
+                    get: () => d.fog.densityScale,
+                    set: (v) => { d.fog.densityScale = v; },
+                },
+                {
+                    label: 'Fog plane opacity', min: 0, max: 0.2, step: 0.005,
+                    get: () => d.fogPlanes.opacity,
+                    set: (v) => {
+                        d.fogPlanes.opacity = v;
+                        this.fogPlanes.children.forEach((fog) => {
+                            ((fog as THREE.Mesh).material as THREE.ShaderMaterial).uniforms.opacity.value = v;
+                        });
+                    },
+                },
+                {
+                    label: 'Grid opacity', min: 0, max: 0.5, step: 0.01,
+                    get: () => d.grid.opacity,
+                    set: (v) => {
+                        d.grid.opacity = v;
+                        if (gridMaterial) gridMaterial.opacity = v;
+                    },
+                },
+                {
+                    label: 'Grid scroll speed', min: 0, max: 5, step: 0.1,
+                    get: () => d.grid.scrollSpeed,
+                    set: (v) => { d.grid.scrollSpeed = v; },
+                },
+            ],
+        };
+    }
+
     public destroy() {
         this.isDestroyed = true;
-        cancelAnimationFrame(this.animationId);
-        this.renderer.dispose();
+        this.lifetime.destroy();
+        this.spatial?.destroy();
+        this.setPieces.dispose();
+        this.post.destroy();
+        // Materials first: their shader programs are released through the renderer
         this.scene.traverse((obj) => {
             if ((obj as THREE.Mesh).geometry) (obj as THREE.Mesh).geometry.dispose();
             if ((obj as THREE.Mesh).material) {
@@ -364,5 +530,6 @@ export class WorldScene {
                 else mat.dispose();
             }
         });
+        this.renderer.dispose();
     }
 }